@@ -3,7 +3,11 @@ import * as Parser from './Parser.js'
 import PostgresMetaColumnPrivileges from './PostgresMetaColumnPrivileges.js'
 import PostgresMetaColumns from './PostgresMetaColumns.js'
 import PostgresMetaConfig from './PostgresMetaConfig.js'
+import PostgresMetaConstraints from './PostgresMetaConstraints.js'
+import PostgresMetaEventTriggers from './PostgresMetaEventTriggers.js'
 import PostgresMetaExtensions from './PostgresMetaExtensions.js'
+import PostgresMetaForeignDataWrappers from './PostgresMetaForeignDataWrappers.js'
+import PostgresMetaForeignServers from './PostgresMetaForeignServers.js'
 import PostgresMetaForeignTables from './PostgresMetaForeignTables.js'
 import PostgresMetaFunctions from './PostgresMetaFunctions.js'
 import PostgresMetaIndexes from './PostgresMetaIndexes.js'
@@ -11,24 +15,41 @@ import PostgresMetaMaterializedViews from './PostgresMetaMaterializedViews.js'
 import PostgresMetaPolicies from './PostgresMetaPolicies.js'
 import PostgresMetaPublications from './PostgresMetaPublications.js'
 import PostgresMetaRelationships from './PostgresMetaRelationships.js'
+import PostgresMetaReplicationSlots from './PostgresMetaReplicationSlots.js'
 import PostgresMetaRoles from './PostgresMetaRoles.js'
 import PostgresMetaSchemas from './PostgresMetaSchemas.js'
+import PostgresMetaSequences from './PostgresMetaSequences.js'
+import PostgresMetaSubscriptions from './PostgresMetaSubscriptions.js'
 import PostgresMetaTablePrivileges from './PostgresMetaTablePrivileges.js'
 import PostgresMetaTables from './PostgresMetaTables.js'
 import PostgresMetaTriggers from './PostgresMetaTriggers.js'
 import PostgresMetaTypes from './PostgresMetaTypes.js'
+import PostgresMetaUserMappings from './PostgresMetaUserMappings.js'
 import PostgresMetaVersion from './PostgresMetaVersion.js'
 import PostgresMetaViews from './PostgresMetaViews.js'
-import { init } from './db.js'
-import { PostgresMetaResult } from './types.js'
+import { init, Query } from './db.js'
+import { explain } from './explain.js'
+import {
+  PostgresExplain,
+  PostgresExplainOptions,
+  PostgresMetaResult,
+  PostgresPoolStats,
+  PostgresQueryParameter,
+  PostgresQueryStream,
+  PostgresQueryStreamOptions,
+  PostgresTypeParsing,
+} from './types.js'
 
-export default class PostgresMeta {
-  query: (sql: string) => Promise<PostgresMetaResult<any>>
-  end: () => Promise<void>
+class PostgresMetaBase {
+  query: Query
   columnPrivileges: PostgresMetaColumnPrivileges
   columns: PostgresMetaColumns
   config: PostgresMetaConfig
+  constraints: PostgresMetaConstraints
+  eventTriggers: PostgresMetaEventTriggers
   extensions: PostgresMetaExtensions
+  foreignDataWrappers: PostgresMetaForeignDataWrappers
+  foreignServers: PostgresMetaForeignServers
   foreignTables: PostgresMetaForeignTables
   functions: PostgresMetaFunctions
   indexes: PostgresMetaIndexes
@@ -36,41 +57,87 @@ export default class PostgresMeta {
   policies: PostgresMetaPolicies
   publications: PostgresMetaPublications
   relationships: PostgresMetaRelationships
+  replicationSlots: PostgresMetaReplicationSlots
   roles: PostgresMetaRoles
   schemas: PostgresMetaSchemas
+  sequences: PostgresMetaSequences
+  subscriptions: PostgresMetaSubscriptions
   tablePrivileges: PostgresMetaTablePrivileges
   tables: PostgresMetaTables
   triggers: PostgresMetaTriggers
   types: PostgresMetaTypes
+  userMappings: PostgresMetaUserMappings
   version: PostgresMetaVersion
   views: PostgresMetaViews
 
   parse = Parser.Parse
   deparse = Parser.Deparse
   format = Parser.Format
+  explain: (
+    sql: string,
+    options?: PostgresExplainOptions
+  ) => Promise<PostgresMetaResult<PostgresExplain>>
+
+  constructor(query: Query, typeParsing?: PostgresTypeParsing) {
+    this.query = typeParsing
+      ? (sql, parameters, options) => query(sql, parameters, { typeParsing, ...options })
+      : query
+    // Modules rely on the default parsing, e.g. for int8 ids.
+    this.columnPrivileges = new PostgresMetaColumnPrivileges(query)
+    this.columns = new PostgresMetaColumns(query)
+    this.config = new PostgresMetaConfig(query)
+    this.constraints = new PostgresMetaConstraints(query)
+    this.eventTriggers = new PostgresMetaEventTriggers(query)
+    this.extensions = new PostgresMetaExtensions(query)
+    this.foreignDataWrappers = new PostgresMetaForeignDataWrappers(query)
+    this.foreignServers = new PostgresMetaForeignServers(query)
+    this.foreignTables = new PostgresMetaForeignTables(query)
+    this.functions = new PostgresMetaFunctions(query)
+    this.indexes = new PostgresMetaIndexes(query)
+    this.materializedViews = new PostgresMetaMaterializedViews(query)
+    this.policies = new PostgresMetaPolicies(query)
+    this.publications = new PostgresMetaPublications(query)
+    this.relationships = new PostgresMetaRelationships(query)
+    this.replicationSlots = new PostgresMetaReplicationSlots(query)
+    this.roles = new PostgresMetaRoles(query)
+    this.schemas = new PostgresMetaSchemas(query)
+    this.sequences = new PostgresMetaSequences(query)
+    this.subscriptions = new PostgresMetaSubscriptions(query)
+    this.tablePrivileges = new PostgresMetaTablePrivileges(query)
+    this.tables = new PostgresMetaTables(query)
+    this.triggers = new PostgresMetaTriggers(query)
+    this.types = new PostgresMetaTypes(query)
+    this.userMappings = new PostgresMetaUserMappings(query)
+    this.version = new PostgresMetaVersion(query)
+    this.views = new PostgresMetaViews(query)
+    this.explain = (sql, options) => explain(query, sql, options)
+  }
+}
+
+/**
+ * A PostgresMeta handle whose queries all run on the same client, inside a
+ * single transaction.
+ */
+export type PostgresMetaTransaction = PostgresMetaBase
+
+export default class PostgresMeta extends PostgresMetaBase {
+  end: () => Promise<void>
+  transaction: <T>(
+    fn: (tx: PostgresMetaTransaction) => Promise<T>
+  ) => Promise<PostgresMetaResult<T>>
+  stream: (
+    sql: string,
+    parameters?: PostgresQueryParameter[],
+    options?: PostgresQueryStreamOptions
+  ) => Promise<PostgresMetaResult<PostgresQueryStream>>
+  poolStats: () => PostgresPoolStats
 
-  constructor(config: PoolConfig) {
-    const { query, end } = init(config)
-    this.query = query
+  constructor(config: PoolConfig, { typeParsing }: { typeParsing?: PostgresTypeParsing } = {}) {
+    const { query, transaction, stream, poolStats, end } = init(config)
+    super(query, typeParsing)
     this.end = end
-    this.columnPrivileges = new PostgresMetaColumnPrivileges(this.query)
-    this.columns = new PostgresMetaColumns(this.query)
-    this.config = new PostgresMetaConfig(this.query)
-    this.extensions = new PostgresMetaExtensions(this.query)
-    this.foreignTables = new PostgresMetaForeignTables(this.query)
-    this.functions = new PostgresMetaFunctions(this.query)
-    this.indexes = new PostgresMetaIndexes(this.query)
-    this.materializedViews = new PostgresMetaMaterializedViews(this.query)
-    this.policies = new PostgresMetaPolicies(this.query)
-    this.publications = new PostgresMetaPublications(this.query)
-    this.relationships = new PostgresMetaRelationships(this.query)
-    this.roles = new PostgresMetaRoles(this.query)
-    this.schemas = new PostgresMetaSchemas(this.query)
-    this.tablePrivileges = new PostgresMetaTablePrivileges(this.query)
-    this.tables = new PostgresMetaTables(this.query)
-    this.triggers = new PostgresMetaTriggers(this.query)
-    this.types = new PostgresMetaTypes(this.query)
-    this.version = new PostgresMetaVersion(this.query)
-    this.views = new PostgresMetaViews(this.query)
+    this.stream = (sql, parameters, options) => stream(sql, parameters, { typeParsing, ...options })
+    this.poolStats = poolStats
+    this.transaction = (fn) => transaction((query) => fn(new PostgresMetaBase(query, typeParsing)))
   }
 }
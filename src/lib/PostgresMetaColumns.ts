@@ -2,8 +2,13 @@ import { ident, literal } from 'pg-format'
 import PostgresMetaTables from './PostgresMetaTables.js'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
 import { columnsSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresColumn } from './types.js'
-import { filterByList } from './helpers.js'
+import {
+  PostgresMetaResult,
+  PostgresColumn,
+  PostgresColumnTypeChange,
+  PostgresColumnTypeChangePreview,
+} from './types.js'
+import { filterByList, generateColumnDefinitionSql, typeIdent } from './helpers.js'
 
 export default class PostgresMetaColumns {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -127,6 +132,11 @@ WHERE
     is_nullable,
     is_primary_key = false,
     is_unique = false,
+    generation_expression,
+    collation,
+    storage,
+    compression,
+    statistics_target,
     comment,
     check,
   }: {
@@ -140,6 +150,11 @@ WHERE
     is_nullable?: boolean
     is_primary_key?: boolean
     is_unique?: boolean
+    generation_expression?: string
+    collation?: string
+    storage?: 'PLAIN' | 'EXTERNAL' | 'MAIN' | 'EXTENDED'
+    compression?: string
+    statistics_target?: number
     comment?: string
     check?: string
   }): Promise<PostgresMetaResult<PostgresColumn>> {
@@ -149,48 +164,41 @@ WHERE
     }
     const { name: table, schema } = data!
 
-    let defaultValueClause = ''
-    if (is_identity) {
-      if (default_value !== undefined) {
-        return {
-          data: null,
-          error: { message: 'Columns cannot both be identity and have a default value' },
-        }
-      }
-
-      defaultValueClause = `GENERATED ${identity_generation} AS IDENTITY`
-    } else {
-      if (default_value === undefined) {
-        // skip
-      } else if (default_value_format === 'expression') {
-        defaultValueClause = `DEFAULT ${default_value}`
-      } else {
-        defaultValueClause = `DEFAULT ${literal(default_value)}`
-      }
-    }
-
-    let isNullableClause = ''
-    if (is_nullable !== undefined) {
-      isNullableClause = is_nullable ? 'NULL' : 'NOT NULL'
+    const { data: definitionSql, error: definitionError } = generateColumnDefinitionSql({
+      name,
+      type,
+      default_value,
+      default_value_format,
+      is_identity,
+      identity_generation,
+      is_nullable,
+      is_primary_key,
+      is_unique,
+      generation_expression,
+      collation,
+      compression,
+      check,
+    })
+    if (definitionError) {
+      return { data: null, error: definitionError }
     }
-    const isPrimaryKeyClause = is_primary_key ? 'PRIMARY KEY' : ''
-    const isUniqueClause = is_unique ? 'UNIQUE' : ''
-    const checkSql = check === undefined ? '' : `CHECK (${check})`
+    // Storage and statistics can't be set in the column definition itself.
+    const alterColumnSql = `ALTER TABLE ${ident(schema)}.${ident(table)} ALTER COLUMN ${ident(name)}`
+    const storageSql = storage === undefined ? '' : `${alterColumnSql} SET STORAGE ${storage};`
+    const statisticsSql =
+      statistics_target === undefined
+        ? ''
+        : `${alterColumnSql} SET STATISTICS ${statistics_target};`
     const commentSql =
       comment === undefined
         ? ''
         : `COMMENT ON COLUMN ${ident(schema)}.${ident(table)}.${ident(name)} IS ${literal(comment)}`
 
     const sql = `
-BEGIN;
-  ALTER TABLE ${ident(schema)}.${ident(table)} ADD COLUMN ${ident(name)} ${typeIdent(type)}
-    ${defaultValueClause}
-    ${isNullableClause}
-    ${isPrimaryKeyClause}
-    ${isUniqueClause}
-    ${checkSql};
-  ${commentSql};
-COMMIT;`
+  ALTER TABLE ${ident(schema)}.${ident(table)} ADD COLUMN ${definitionSql};
+  ${storageSql}
+  ${statisticsSql}
+  ${commentSql};`
     {
       const { error } = await this.query(sql)
       if (error) {
@@ -205,6 +213,7 @@ COMMIT;`
     {
       name,
       type,
+      using,
       drop_default = false,
       default_value,
       default_value_format = 'literal',
@@ -212,11 +221,17 @@ COMMIT;`
       identity_generation = 'BY DEFAULT',
       is_nullable,
       is_unique,
+      drop_generation_expression = false,
+      collation,
+      storage,
+      compression,
+      statistics_target,
       comment,
       check,
     }: {
       name?: string
       type?: string
+      using?: string
       drop_default?: boolean
       default_value?: any
       default_value_format?: 'expression' | 'literal'
@@ -224,6 +239,11 @@ COMMIT;`
       identity_generation?: 'BY DEFAULT' | 'ALWAYS'
       is_nullable?: boolean
       is_unique?: boolean
+      drop_generation_expression?: boolean
+      collation?: string | null
+      storage?: 'PLAIN' | 'EXTERNAL' | 'MAIN' | 'EXTENDED'
+      compression?: string | null
+      statistics_target?: number | null
       comment?: string
       check?: string | null
     }
@@ -239,13 +259,52 @@ COMMIT;`
         : `ALTER TABLE ${ident(old!.schema)}.${ident(old!.table)} RENAME COLUMN ${ident(
             old!.name
           )} TO ${ident(name)};`
+    const alterColumnSql = `ALTER TABLE ${ident(old!.schema)}.${ident(
+      old!.table
+    )} ALTER COLUMN ${ident(old!.name)}`
+    // null goes back to the type's default collation.
+    const collationClause =
+      collation === undefined
+        ? ''
+        : `COLLATE ${collation === null ? '"default"' : ident(collation)}`
     // We use USING to allow implicit conversion of incompatible types (e.g. int4 -> text).
     const typeSql =
       type === undefined
         ? ''
         : `ALTER TABLE ${ident(old!.schema)}.${ident(old!.table)} ALTER COLUMN ${ident(
             old!.name
-          )} SET DATA TYPE ${typeIdent(type)} USING ${ident(old!.name)}::${typeIdent(type)};`
+          )} SET DATA TYPE ${typeIdent(type)} ${collationClause} USING ${generateUsingSql(
+            old!.name,
+            type,
+            using
+          )};`
+    // The collation can only be changed along with the type, so the current
+    // type is set again.
+    let collationSql = ''
+    if (collation !== undefined && type === undefined) {
+      const { data, error } = await this.query(`
+select format_type(atttypid, atttypmod) as type
+from pg_attribute
+where attrelid = ${literal(old!.table_id)} and attnum = ${literal(old!.ordinal_position)};`)
+      if (error) {
+        return { data: null, error }
+      }
+      collationSql = `${alterColumnSql} SET DATA TYPE ${data[0].type} ${collationClause};`
+    }
+    const dropGenerationExpressionSql = drop_generation_expression
+      ? `${alterColumnSql} DROP EXPRESSION;`
+      : ''
+    const storageSql = storage === undefined ? '' : `${alterColumnSql} SET STORAGE ${storage};`
+    const compressionSql =
+      compression === undefined
+        ? ''
+        : `${alterColumnSql} SET COMPRESSION ${
+            compression === null ? 'default' : ident(compression)
+          };`
+    const statisticsSql =
+      statistics_target === undefined
+        ? ''
+        : `${alterColumnSql} SET STATISTICS ${statistics_target ?? -1};`
 
     let defaultValueSql: string
     if (drop_default) {
@@ -382,16 +441,19 @@ $$;
     // NOTE: nameSql must be last. defaultValueSql must be after typeSql.
     // identitySql must be after isNullableSql.
     const sql = `
-BEGIN;
+  ${dropGenerationExpressionSql}
   ${isNullableSql}
   ${typeSql}
+  ${collationSql}
+  ${storageSql}
+  ${compressionSql}
+  ${statisticsSql}
   ${defaultValueSql}
   ${identitySql}
   ${isUniqueSql}
   ${commentSql}
   ${checkSql}
-  ${nameSql}
-COMMIT;`
+  ${nameSql}`
     {
       const { error } = await this.query(sql)
       if (error) {
@@ -401,6 +463,121 @@ COMMIT;`
     return await this.retrieve({ id })
   }
 
+  /**
+   * Dry run of changing the column's type: counts the rows whose values can't
+   * be converted, with a few examples, and tells whether the table may be
+   * rewritten. Nothing is altered, but every row is read. If any value fails,
+   * only the first `TYPE_CHANGE_PREVIEW_ROWS` rows are checked one by one.
+   */
+  async previewTypeChange(
+    id: string,
+    { type, using }: PostgresColumnTypeChange
+  ): Promise<PostgresMetaResult<PostgresColumnTypeChangePreview>> {
+    const { data: column, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const table = `${ident(column!.schema)}.${ident(column!.table)}`
+    const castSql = `(${generateUsingSql(column!.name, type, using)})::${typeIdent(type)}`
+
+    // The temporary table holds the failures, and its `cast_value` column
+    // gives the target type's OID and typmod. If the whole column casts at
+    // once, there's no need to go row by row. The DO body is passed as a
+    // literal, since `using` may contain dollar quotes.
+    //
+    // Without USING, the table isn't rewritten if the cast is binary coercible
+    // and the typmod is dropped, unchanged, or only raised for types whose
+    // length or precision can grow in place.
+    const checkSql = `
+DECLARE
+  r record;
+  checked_rows int8 := 0;
+BEGIN
+  BEGIN
+    PERFORM count(${castSql}) FROM ${table};
+    PERFORM set_config('pg_meta.checked_rows', (SELECT count(*) FROM ${table})::text, true);
+    RETURN;
+  EXCEPTION WHEN OTHERS THEN
+    NULL;
+  END;
+
+  FOR r IN
+    SELECT ctid, ${ident(column!.name)}::text AS value FROM ${table}
+    LIMIT ${TYPE_CHANGE_PREVIEW_ROWS}
+  LOOP
+    checked_rows := checked_rows + 1;
+    BEGIN
+      EXECUTE ${literal(`SELECT ${castSql} FROM ${table} WHERE ctid = $1`)} USING r.ctid;
+    EXCEPTION WHEN OTHERS THEN
+      INSERT INTO pg_temp.pg_meta_type_change_preview (value, error) VALUES (r.value, SQLERRM);
+    END;
+  END LOOP;
+  PERFORM set_config('pg_meta.checked_rows', checked_rows::text, true);
+END`
+    const sql = `
+CREATE TEMPORARY TABLE pg_meta_type_change_preview (
+  cast_value ${typeIdent(type)},
+  value text,
+  error text
+);
+
+DO ${literal(checkSql)};
+
+SELECT
+  format_type(a.atttypid, a.atttypmod) AS from_type,
+  format_type(p.atttypid, p.atttypmod) AS to_type,
+  (SELECT count(*) FROM ${table}) AS total_rows,
+  current_setting('pg_meta.checked_rows')::int8 AS checked_rows,
+  current_setting('pg_meta.checked_rows')::int8 < (SELECT count(*) FROM ${table}) AS truncated,
+  (SELECT count(*) FROM pg_temp.pg_meta_type_change_preview) AS failing_rows,
+  coalesce(
+    (
+      SELECT jsonb_agg(jsonb_build_object('value', e.value, 'error', e.error))
+      FROM (SELECT value, error FROM pg_temp.pg_meta_type_change_preview LIMIT 10) e
+    ),
+    '[]'
+  ) AS examples,
+  NOT (
+    ${using === undefined ? 'true' : 'false'}
+    AND (
+      a.atttypid = p.atttypid
+      OR EXISTS (
+        SELECT 1 FROM pg_cast
+        WHERE castsource = a.atttypid AND casttarget = p.atttypid AND castmethod = 'b'
+      )
+    )
+    AND (
+      p.atttypmod = -1
+      OR p.atttypmod = a.atttypmod
+      OR a.atttypid = p.atttypid AND a.atttypmod <> -1 AND CASE
+        WHEN p.atttypid IN (
+          'varchar'::regtype, 'varbit'::regtype, 'time'::regtype, 'timetz'::regtype,
+          'timestamp'::regtype, 'timestamptz'::regtype
+        ) THEN p.atttypmod >= a.atttypmod
+        -- Same scale, same or higher precision
+        WHEN p.atttypid = 'numeric'::regtype THEN
+          (p.atttypmod - 4) & 65535 = (a.atttypmod - 4) & 65535
+          AND (p.atttypmod - 4) >> 16 >= (a.atttypmod - 4) >> 16
+        ELSE false
+      END
+    )
+  ) AS may_require_rewrite
+FROM pg_attribute a, pg_attribute p
+WHERE a.attrelid = ${literal(column!.table_id)}
+  AND a.attnum = ${literal(column!.ordinal_position)}
+  AND p.attrelid = 'pg_temp.pg_meta_type_change_preview'::regclass
+  AND p.attname = 'cast_value';
+
+DROP TABLE pg_temp.pg_meta_type_change_preview;`
+    {
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+      return { data: data[0], error: null }
+    }
+  }
+
   async remove(id: string, { cascade = false } = {}): Promise<PostgresMetaResult<PostgresColumn>> {
     const { data: column, error } = await this.retrieve({ id })
     if (error) {
@@ -419,12 +596,8 @@ COMMIT;`
   }
 }
 
-// TODO: make this more robust - use type_id or type_schema + type_name instead
-// of just type.
-const typeIdent = (type: string) => {
-  return type.endsWith('[]')
-    ? `${ident(type.slice(0, -2))}[]`
-    : type.includes('.')
-      ? type
-      : ident(type)
-}
+// Rows checked one by one when the column doesn't convert as a whole.
+const TYPE_CHANGE_PREVIEW_ROWS = 10000
+
+const generateUsingSql = (column: string, type: string, using?: string): string =>
+  using ?? `${ident(column)}::${typeIdent(type)}`
@@ -0,0 +1,345 @@
+import { ident, literal } from 'pg-format'
+import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
+import {
+  filterByList,
+  generateChooseObjectNameSql,
+  generateDeferrableSql,
+  generateQualifiedIdent,
+} from './helpers.js'
+import { constraintsSql } from './sql/index.js'
+import {
+  PostgresMetaResult,
+  PostgresConstraint,
+  PostgresConstraintCreate,
+  PostgresConstraintUpdate,
+} from './types.js'
+
+export default class PostgresMetaConstraints {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    tableId,
+    includeSystemSchemas = false,
+    includedSchemas,
+    excludedSchemas,
+    limit,
+    offset,
+  }: {
+    tableId?: number
+    includeSystemSchemas?: boolean
+    includedSchemas?: string[]
+    excludedSchemas?: string[]
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresConstraint[]>> {
+    let sql = `${enrichedSql} WHERE true`
+    const filter = filterByList(
+      includedSchemas,
+      excludedSchemas,
+      !includeSystemSchemas ? DEFAULT_SYSTEM_SCHEMAS : undefined
+    )
+    if (filter) {
+      sql += ` AND schema ${filter}`
+    }
+    if (tableId !== undefined) {
+      sql += ` AND table_id = ${literal(tableId)}`
+    }
+    if (limit) {
+      sql += ` LIMIT ${limit}`
+    }
+    if (offset) {
+      sql += ` OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresConstraint>>
+  async retrieve({
+    name,
+    table,
+    schema,
+  }: {
+    name: string
+    table: string
+    schema: string
+  }): Promise<PostgresMetaResult<PostgresConstraint>>
+  async retrieve({
+    id,
+    name,
+    table,
+    schema = 'public',
+  }: {
+    id?: number
+    name?: string
+    table?: string
+    schema?: string
+  }): Promise<PostgresMetaResult<PostgresConstraint>> {
+    if (id) {
+      const sql = `${enrichedSql} WHERE id = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a constraint with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name && table) {
+      const sql = `${enrichedSql} WHERE name = ${literal(name)} AND "table" = ${literal(
+        table
+      )} AND schema = ${literal(schema)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: {
+            message: `Cannot find a constraint named ${name} on table ${schema}.${table}`,
+          },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on constraint retrieve' } }
+    }
+  }
+
+  async create(
+    constraint: PostgresConstraintCreate
+  ): Promise<PostgresMetaResult<PostgresConstraint>> {
+    const { table_id, name, comment } = constraint
+    const { data: tables, error } = await this.query(`
+select n.nspname as schema, c.relname as name
+from pg_class c join pg_namespace n on n.oid = c.relnamespace
+where c.oid = ${literal(table_id)};`)
+    if (error) {
+      return { data: null, error }
+    } else if (tables.length === 0) {
+      return { data: null, error: { message: `Cannot find a table with ID ${table_id}` } }
+    }
+    const table = tables[0]
+
+    let definitionSql: string
+    let deferrableSql = ''
+    let notValidSql = ''
+    switch (constraint.kind) {
+      case 'check': {
+        definitionSql = `CHECK (${constraint.check}) ${constraint.no_inherit ? 'NO INHERIT' : ''}`
+        notValidSql = constraint.not_valid ? 'NOT VALID' : ''
+        break
+      }
+      case 'foreign_key': {
+        const { data: referencedTables, error } = await this.query(`
+select n.nspname as schema, c.relname as name
+from pg_class c join pg_namespace n on n.oid = c.relnamespace
+where c.oid = ${literal(constraint.referenced_table_id)};`)
+        if (error) {
+          return { data: null, error }
+        } else if (referencedTables.length === 0) {
+          return {
+            data: null,
+            error: {
+              message: `Cannot find a table with ID ${constraint.referenced_table_id}`,
+            },
+          }
+        }
+        const referencedTable = referencedTables[0]
+        const referencedColumnsSql =
+          constraint.referenced_columns === undefined
+            ? ''
+            : `(${constraint.referenced_columns.map((x) => ident(x)).join(',')})`
+        definitionSql = `FOREIGN KEY (${constraint.columns.map((x) => ident(x)).join(',')})
+  REFERENCES ${ident(referencedTable.schema)}.${ident(referencedTable.name)} ${referencedColumnsSql}
+  ${constraint.match === undefined ? '' : `MATCH ${constraint.match}`}
+  ${constraint.on_update === undefined ? '' : `ON UPDATE ${constraint.on_update}`}
+  ${constraint.on_delete === undefined ? '' : `ON DELETE ${constraint.on_delete}`}`
+        deferrableSql = generateDeferrableSql(constraint)
+        notValidSql = constraint.not_valid ? 'NOT VALID' : ''
+        break
+      }
+      case 'primary_key':
+      case 'unique': {
+        const keyword = constraint.kind === 'primary_key' ? 'PRIMARY KEY' : 'UNIQUE'
+        const columnsSql = constraint.columns.map((x) => ident(x)).join(',')
+        definitionSql = `${keyword} (${columnsSql}) ${generateIncludeSql(constraint.include)}`
+        deferrableSql = generateDeferrableSql(constraint)
+        break
+      }
+      case 'exclusion': {
+        const elementsSql: string[] = []
+        for (const { name, expression, opclass, operator } of constraint.elements) {
+          const operatorSql = generateOperatorSql(operator)
+          if (operatorSql === null) {
+            return { data: null, error: { message: `Invalid operator: ${operator}` } }
+          }
+          const key = name === undefined ? `(${expression})` : ident(name)
+          const opclassSql = opclass === undefined ? '' : generateQualifiedIdent(opclass)
+          elementsSql.push(`${key} ${opclassSql} WITH ${operatorSql}`)
+        }
+        definitionSql = `EXCLUDE USING ${
+          constraint.access_method ?? 'gist'
+        } (${elementsSql.join(',')}) ${generateIncludeSql(constraint.include)} ${
+          constraint.where === undefined ? '' : `WHERE (${constraint.where})`
+        }`
+        deferrableSql = generateDeferrableSql(constraint)
+        break
+      }
+    }
+    // Without a name, one is chosen the way Postgres would, so the constraint
+    // can be looked up by name on the table afterwards. That leaves out the
+    // ones cloned onto partitions or added for a partitioned referenced table.
+    let constraintName = name
+    if (constraintName === undefined) {
+      const [columns, label] = generateNameParts(constraint)
+      const { data, error } = await this.query(
+        generateChooseObjectNameSql(table.schema, table.name, columns, label)
+      )
+      if (error) {
+        return { data: null, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot choose a name for the constraint on ${table.name}` },
+        }
+      }
+      constraintName = data[0].name as string
+    }
+    const tableSql = `${ident(table.schema)}.${ident(table.name)}`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON CONSTRAINT ${ident(constraintName)} ON ${tableSql} IS ${literal(comment)};`
+    const sql = `
+ALTER TABLE ${tableSql}
+  ADD CONSTRAINT ${ident(constraintName)}
+  ${definitionSql}
+  ${deferrableSql}
+  ${notValidSql};
+${commentSql}
+select oid::int8 as id
+from pg_constraint
+where conrelid = ${literal(table_id)} and conname = ${literal(constraintName)};`
+    const { data: newConstraints, error: newConstraintsError } = await this.query(sql)
+    if (newConstraintsError) {
+      return { data: null, error: newConstraintsError }
+    } else if (newConstraints.length === 0) {
+      return {
+        data: null,
+        error: { message: `Cannot find a constraint named ${constraintName} on ${table.name}` },
+      }
+    }
+    return await this.retrieve({ id: newConstraints[0].id })
+  }
+
+  async update(
+    id: number,
+    { name, comment }: PostgresConstraintUpdate
+  ): Promise<PostgresMetaResult<PostgresConstraint>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const tableSql = `${ident(old!.schema)}.${ident(old!.table)}`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON CONSTRAINT ${ident(old!.name)} ON ${tableSql} IS ${literal(comment)};`
+    const nameSql =
+      name === undefined || name === old!.name
+        ? ''
+        : `ALTER TABLE ${tableSql} RENAME CONSTRAINT ${ident(old!.name)} TO ${ident(name)};`
+    // nameSql must be last
+    const sql = `${commentSql} ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async validate(id: number): Promise<PostgresMetaResult<PostgresConstraint>> {
+    const { data: constraint, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `ALTER TABLE ${ident(constraint!.schema)}.${ident(
+      constraint!.table
+    )} VALIDATE CONSTRAINT ${ident(constraint!.name)};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresConstraint>> {
+    const { data: constraint, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `ALTER TABLE ${ident(constraint!.schema)}.${ident(
+      constraint!.table
+    )} DROP CONSTRAINT ${ident(constraint!.name)} ${cascade ? 'CASCADE' : 'RESTRICT'};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: constraint!, error: null }
+  }
+}
+
+// The columns and suffix Postgres names the constraint after when it has no
+// name.
+const generateNameParts = (constraint: PostgresConstraintCreate): [string[], string] => {
+  switch (constraint.kind) {
+    case 'check':
+      return [[], 'check']
+    case 'foreign_key':
+      return [constraint.columns, 'fkey']
+    case 'primary_key':
+      return [[], 'pkey']
+    case 'unique':
+      return [constraint.columns, 'key']
+    case 'exclusion':
+      return [constraint.elements.map(({ name }) => name ?? 'expr'), 'excl']
+  }
+}
+
+// Operators can't be quoted, so they're checked to be only made of operator
+// characters instead.
+const generateOperatorSql = (operator: string): string | null => {
+  const match = /^(?:(.+)\.)?([+\-*/<>=~!@#%^&|`?]+)$/.exec(operator)
+  if (match === null) {
+    return null
+  }
+  const [, schema, name] = match
+  return `OPERATOR(${schema === undefined ? '' : `${ident(schema)}.`}${name})`
+}
+
+const generateIncludeSql = (include?: string[]): string =>
+  include === undefined ? '' : `INCLUDE (${include.map((x) => ident(x)).join(',')})`
+
+const enrichedSql = `
+  WITH constraints AS (
+    ${constraintsSql}
+  )
+  SELECT
+    *
+  FROM constraints
+`
@@ -0,0 +1,164 @@
+import { ident, literal } from 'pg-format'
+import { eventTriggersSql } from './sql/index.js'
+import {
+  PostgresEventTrigger,
+  PostgresEventTriggerCreate,
+  PostgresEventTriggerUpdate,
+  PostgresMetaResult,
+} from './types.js'
+
+export default class PostgresMetaEventTriggers {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    limit,
+    offset,
+  }: {
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresEventTrigger[]>> {
+    let sql = eventTriggersSql
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresEventTrigger>>
+  async retrieve({ name }: { name: string }): Promise<PostgresMetaResult<PostgresEventTrigger>>
+  async retrieve({
+    id,
+    name,
+  }: {
+    id?: number
+    name?: string
+  }): Promise<PostgresMetaResult<PostgresEventTrigger>> {
+    if (id) {
+      const sql = `${eventTriggersSql} WHERE e.oid = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find an event trigger with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${eventTriggersSql} WHERE e.evtname = ${literal(name)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find an event trigger named ${name}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on event trigger retrieve' } }
+    }
+  }
+
+  async create({
+    name,
+    event,
+    tags,
+    function_schema = 'public',
+    function_name,
+    enabled_mode,
+    comment,
+  }: PostgresEventTriggerCreate): Promise<PostgresMetaResult<PostgresEventTrigger>> {
+    const tagsClause =
+      tags === undefined || tags.length === 0
+        ? ''
+        : `WHEN TAG IN (${tags.map((x) => literal(x)).join(',')})`
+    const sql = `
+CREATE EVENT TRIGGER ${ident(name)} ON ${ident(event)}
+  ${tagsClause}
+  EXECUTE FUNCTION ${ident(function_schema)}.${ident(function_name)}();
+${enabled_mode === undefined ? '' : generateEnabledModeSql(name, enabled_mode)}
+${comment === undefined ? '' : `COMMENT ON EVENT TRIGGER ${ident(name)} IS ${literal(comment)};`}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name })
+  }
+
+  async update(
+    id: number,
+    { name, enabled_mode, owner, comment }: PostgresEventTriggerUpdate
+  ): Promise<PostgresMetaResult<PostgresEventTrigger>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const enabledModeSql =
+      enabled_mode === undefined ? '' : generateEnabledModeSql(old!.name, enabled_mode)
+    const ownerSql =
+      owner === undefined ? '' : `ALTER EVENT TRIGGER ${ident(old!.name)} OWNER TO ${ident(owner)};`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON EVENT TRIGGER ${ident(old!.name)} IS ${literal(comment)};`
+    const nameSql =
+      name === undefined || name === old!.name
+        ? ''
+        : `ALTER EVENT TRIGGER ${ident(old!.name)} RENAME TO ${ident(name)};`
+    // nameSql must be last
+    const sql = `
+  ${enabledModeSql}
+  ${ownerSql}
+  ${commentSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresEventTrigger>> {
+    const { data: eventTrigger, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP EVENT TRIGGER ${ident(eventTrigger!.name)} ${
+      cascade ? 'CASCADE' : 'RESTRICT'
+    };`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: eventTrigger!, error: null }
+  }
+}
+
+const generateEnabledModeSql = (
+  name: string,
+  enabledMode: 'ORIGIN' | 'REPLICA' | 'ALWAYS' | 'DISABLED'
+): string => {
+  switch (enabledMode) {
+    case 'ORIGIN':
+      return `ALTER EVENT TRIGGER ${ident(name)} ENABLE;`
+    case 'DISABLED':
+      return `ALTER EVENT TRIGGER ${ident(name)} DISABLE;`
+    case 'REPLICA':
+    case 'ALWAYS':
+      return `ALTER EVENT TRIGGER ${ident(name)} ENABLE ${enabledMode};`
+  }
+}
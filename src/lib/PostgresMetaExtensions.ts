@@ -82,7 +82,7 @@ CREATE EXTENSION ${ident(name)}
     const schemaSql =
       schema === undefined ? '' : `ALTER EXTENSION ${ident(name)} SET SCHEMA ${ident(schema)};`
 
-    const sql = `BEGIN; ${updateSql} ${schemaSql} COMMIT;`
+    const sql = `${updateSql} ${schemaSql}`
     const { error } = await this.query(sql)
     if (error) {
       return { data: null, error }
@@ -0,0 +1,75 @@
+import { literal } from 'pg-format'
+import { foreignDataWrappersSql } from './sql/index.js'
+import { PostgresForeignDataWrapper, PostgresMetaResult } from './types.js'
+
+export default class PostgresMetaForeignDataWrappers {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    limit,
+    offset,
+  }: {
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresForeignDataWrapper[]>> {
+    let sql = foreignDataWrappersSql
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresForeignDataWrapper>>
+  async retrieve({
+    name,
+  }: {
+    name: string
+  }): Promise<PostgresMetaResult<PostgresForeignDataWrapper>>
+  async retrieve({
+    id,
+    name,
+  }: {
+    id?: number
+    name?: string
+  }): Promise<PostgresMetaResult<PostgresForeignDataWrapper>> {
+    if (id) {
+      const sql = `${foreignDataWrappersSql} WHERE w.oid = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find a foreign data wrapper with ID ${id}` },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${foreignDataWrappersSql} WHERE w.fdwname = ${literal(name)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find a foreign data wrapper named ${name}` },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return {
+        data: null,
+        error: { message: 'Invalid parameters on foreign data wrapper retrieve' },
+      }
+    }
+  }
+}
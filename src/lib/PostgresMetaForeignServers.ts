@@ -0,0 +1,148 @@
+import { ident, literal } from 'pg-format'
+import { generateAlterOptionsSql, generateOptionsSql } from './helpers.js'
+import { foreignServersSql } from './sql/index.js'
+import {
+  PostgresForeignServer,
+  PostgresForeignServerCreate,
+  PostgresForeignServerUpdate,
+  PostgresMetaResult,
+} from './types.js'
+
+export default class PostgresMetaForeignServers {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    limit,
+    offset,
+  }: {
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresForeignServer[]>> {
+    let sql = foreignServersSql
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresForeignServer>>
+  async retrieve({ name }: { name: string }): Promise<PostgresMetaResult<PostgresForeignServer>>
+  async retrieve({
+    id,
+    name,
+  }: {
+    id?: number
+    name?: string
+  }): Promise<PostgresMetaResult<PostgresForeignServer>> {
+    if (id) {
+      const sql = `${foreignServersSql} WHERE s.oid = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a foreign server with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${foreignServersSql} WHERE s.srvname = ${literal(name)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a foreign server named ${name}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on foreign server retrieve' } }
+    }
+  }
+
+  async create({
+    name,
+    wrapper,
+    type,
+    version,
+    options,
+    comment,
+  }: PostgresForeignServerCreate): Promise<PostgresMetaResult<PostgresForeignServer>> {
+    const typeClause = type === undefined ? '' : `TYPE ${literal(type)}`
+    const versionClause = version === undefined ? '' : `VERSION ${literal(version)}`
+    const serverSql = `CREATE SERVER ${ident(
+      name
+    )} ${typeClause} ${versionClause} FOREIGN DATA WRAPPER ${ident(wrapper)} ${generateOptionsSql(
+      options
+    )};`
+    const commentSql =
+      comment === undefined ? '' : `COMMENT ON SERVER ${ident(name)} IS ${literal(comment)};`
+    const sql = `${serverSql} ${commentSql}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name })
+  }
+
+  async update(
+    id: number,
+    { name, owner, version, options, comment }: PostgresForeignServerUpdate
+  ): Promise<PostgresMetaResult<PostgresForeignServer>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const alter = `ALTER SERVER ${ident(old!.name)}`
+    const versionSql =
+      version === undefined
+        ? ''
+        : `${alter} VERSION ${version === null ? 'NULL' : literal(version)};`
+    const optionsClause = generateAlterOptionsSql(old!.options, options)
+    const optionsSql = optionsClause === '' ? '' : `${alter} ${optionsClause};`
+    const ownerSql = owner === undefined ? '' : `${alter} OWNER TO ${ident(owner)};`
+    const commentSql =
+      comment === undefined ? '' : `COMMENT ON SERVER ${ident(old!.name)} IS ${literal(comment)};`
+    const nameSql =
+      name === undefined || name === old!.name ? '' : `${alter} RENAME TO ${ident(name)};`
+    // nameSql must be last
+    const sql = `
+  ${versionSql}
+  ${optionsSql}
+  ${ownerSql}
+  ${commentSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresForeignServer>> {
+    const { data: server, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP SERVER ${ident(server!.name)} ${cascade ? 'CASCADE' : 'RESTRICT'};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: server!, error: null }
+  }
+}
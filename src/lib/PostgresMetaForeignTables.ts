@@ -1,7 +1,19 @@
-import { literal } from 'pg-format'
-import { coalesceRowsToArray, filterByList } from './helpers.js'
+import { ident, literal } from 'pg-format'
+import {
+  coalesceRowsToArray,
+  filterByList,
+  generateAlterOptionsSql,
+  generateOptionsSql,
+  typeIdent,
+} from './helpers.js'
 import { columnsSql, foreignTablesSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresForeignTable } from './types.js'
+import {
+  PostgresMetaResult,
+  PostgresForeignSchemaImport,
+  PostgresForeignTable,
+  PostgresForeignTableCreate,
+  PostgresForeignTableUpdate,
+} from './types.js'
 
 export default class PostgresMetaForeignTables {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -101,6 +113,168 @@ export default class PostgresMetaForeignTables {
       return { data: null, error: { message: 'Invalid parameters on foreign table retrieve' } }
     }
   }
+
+  async create({
+    schema = 'public',
+    name,
+    server,
+    columns = [],
+    options,
+    comment,
+  }: PostgresForeignTableCreate): Promise<PostgresMetaResult<PostgresForeignTable>> {
+    const columnDefinitionsSql = columns
+      .map(({ name, type, is_nullable, options }) => {
+        let isNullableClause = ''
+        if (is_nullable !== undefined) {
+          isNullableClause = is_nullable ? 'NULL' : 'NOT NULL'
+        }
+        return `${ident(name)} ${typeIdent(type)} ${generateOptionsSql(options)} ${isNullableClause}`
+      })
+      .join(',')
+    const tableSql = `CREATE FOREIGN TABLE ${ident(schema)}.${ident(
+      name
+    )} (${columnDefinitionsSql}) SERVER ${ident(server)} ${generateOptionsSql(options)};`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON FOREIGN TABLE ${ident(schema)}.${ident(name)} IS ${literal(comment)};`
+    const sql = `${tableSql} ${commentSql}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name, schema })
+  }
+
+  async update(
+    id: number,
+    { schema, name, columns, options, comment }: PostgresForeignTableUpdate
+  ): Promise<PostgresMetaResult<PostgresForeignTable>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const alter = `ALTER FOREIGN TABLE ${ident(old!.schema)}.${ident(old!.name)}`
+    let columnOptionsSql = ''
+    if (columns !== undefined && columns.length > 0) {
+      const { data, error } = await this.query(`
+select
+  attname as name,
+  coalesce(
+    (select jsonb_object_agg(option_name, option_value) from pg_options_to_table(attfdwoptions)),
+    '{}'
+  ) as options
+from pg_attribute
+where attrelid = ${literal(id)} and attnum > 0 and not attisdropped;`)
+      if (error) {
+        return { data: null, error }
+      }
+      const oldColumnOptions = Object.fromEntries(
+        data.map(({ name, options }: { name: string; options: Record<string, string> }) => [
+          name,
+          options,
+        ])
+      )
+      columnOptionsSql = columns
+        .map(({ name, options }) => {
+          const optionsClause = generateAlterOptionsSql(oldColumnOptions[name] ?? {}, options)
+          return optionsClause === ''
+            ? ''
+            : `${alter} ALTER COLUMN ${ident(name)} ${optionsClause};`
+        })
+        .join('\n')
+    }
+    const optionsClause = generateAlterOptionsSql(old!.options, options)
+    const optionsSql = optionsClause === '' ? '' : `${alter} ${optionsClause};`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON FOREIGN TABLE ${ident(old!.schema)}.${ident(old!.name)} IS ${literal(
+            comment
+          )};`
+    const schemaSql = schema === undefined ? '' : `${alter} SET SCHEMA ${ident(schema)};`
+    let nameSql = ''
+    if (name !== undefined && name !== old!.name) {
+      const currentSchema = schema === undefined ? old!.schema : schema
+      nameSql = `ALTER FOREIGN TABLE ${ident(currentSchema)}.${ident(
+        old!.name
+      )} RENAME TO ${ident(name)};`
+    }
+    // nameSql must be last, right below schemaSql
+    const sql = `
+  ${columnOptionsSql}
+  ${optionsSql}
+  ${commentSql}
+  ${schemaSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresForeignTable>> {
+    const { data: table, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP FOREIGN TABLE ${ident(table!.schema)}.${ident(table!.name)} ${
+      cascade ? 'CASCADE' : 'RESTRICT'
+    };`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: table!, error: null }
+  }
+
+  /**
+   * Runs `IMPORT FOREIGN SCHEMA` and returns the foreign tables of `server` in
+   * `local_schema`, including any that existed before the import.
+   */
+  async importSchema({
+    server,
+    remote_schema,
+    local_schema,
+    limit_to,
+    except,
+    options,
+  }: PostgresForeignSchemaImport): Promise<PostgresMetaResult<PostgresForeignTable[]>> {
+    if (limit_to !== undefined && except !== undefined) {
+      return {
+        data: null,
+        error: { message: 'Only one of limit_to and except can be specified' },
+      }
+    }
+    let tablesClause = ''
+    if (limit_to !== undefined) {
+      tablesClause = `LIMIT TO (${limit_to.map((x) => ident(x)).join(',')})`
+    } else if (except !== undefined) {
+      tablesClause = `EXCEPT (${except.map((x) => ident(x)).join(',')})`
+    }
+    const sql = `IMPORT FOREIGN SCHEMA ${ident(remote_schema)} ${tablesClause} FROM SERVER ${ident(
+      server
+    )} INTO ${ident(local_schema)} ${generateOptionsSql(options)};`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    const tablesSql = `${generateEnrichedForeignTablesSql({
+      includeColumns: true,
+    })} where foreign_tables.schema = ${literal(local_schema)} and foreign_tables.server = ${literal(
+      server
+    )};`
+    return await this.query(tablesSql)
+  }
 }
 
 const generateEnrichedForeignTablesSql = ({ includeColumns }: { includeColumns: boolean }) => `
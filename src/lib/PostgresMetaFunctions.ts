@@ -2,7 +2,13 @@ import { ident, literal } from 'pg-format'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
 import { filterByList } from './helpers.js'
 import { functionsSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresFunction, PostgresFunctionCreate } from './types.js'
+import {
+  PostgresMetaResult,
+  PostgresFunction,
+  PostgresFunctionCall,
+  PostgresFunctionCreate,
+  PostgresFunctionUpdate,
+} from './types.js'
 
 export default class PostgresMetaFunctions {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -15,23 +21,29 @@ export default class PostgresMetaFunctions {
     includeSystemSchemas = false,
     includedSchemas,
     excludedSchemas,
+    returnType,
     limit,
     offset,
   }: {
     includeSystemSchemas?: boolean
     includedSchemas?: string[]
     excludedSchemas?: string[]
+    // E.g. `event_trigger` to find the functions event triggers can execute.
+    returnType?: string
     limit?: number
     offset?: number
   } = {}): Promise<PostgresMetaResult<PostgresFunction[]>> {
-    let sql = enrichedFunctionsSql
+    let sql = `${enrichedFunctionsSql} WHERE true`
     const filter = filterByList(
       includedSchemas,
       excludedSchemas,
       !includeSystemSchemas ? DEFAULT_SYSTEM_SCHEMAS : undefined
     )
     if (filter) {
-      sql += ` WHERE schema ${filter}`
+      sql += ` AND schema ${filter}`
+    }
+    if (returnType !== undefined) {
+      sql += ` AND return_type = ${literal(returnType)}`
     }
     if (limit) {
       sql = `${sql} LIMIT ${limit}`
@@ -95,6 +107,7 @@ export default class PostgresMetaFunctions {
 
   async create({
     name,
+    kind = 'function',
     schema = 'public',
     args = [],
     definition,
@@ -103,9 +116,15 @@ export default class PostgresMetaFunctions {
     behavior = 'VOLATILE',
     security_definer = false,
     config_params = {},
+    is_strict,
+    is_leakproof,
+    parallel,
+    cost,
+    rows,
   }: PostgresFunctionCreate): Promise<PostgresMetaResult<PostgresFunction>> {
     const sql = this.generateCreateFunctionSql({
       name,
+      kind,
       schema,
       args,
       definition,
@@ -114,6 +133,11 @@ export default class PostgresMetaFunctions {
       behavior,
       security_definer,
       config_params,
+      is_strict,
+      is_leakproof,
+      parallel,
+      cost,
+      rows,
     })
     const { error } = await this.query(sql)
     if (error) {
@@ -128,71 +152,111 @@ export default class PostgresMetaFunctions {
       name,
       schema,
       definition,
-    }: {
-      name?: string
-      schema?: string
-      definition?: string
-    }
+      behavior,
+      security_definer,
+      config_params,
+      is_strict,
+      is_leakproof,
+      parallel,
+      cost,
+      rows,
+      owner,
+      comment,
+    }: PostgresFunctionUpdate
   ): Promise<PostgresMetaResult<PostgresFunction>> {
     const { data: currentFunc, error } = await this.retrieve({ id })
     if (error) {
       return { data: null, error }
     }
 
+    const { kind } = currentFunc!
+    if (typeof definition === 'string' && (kind === 'aggregate' || kind === 'window')) {
+      return {
+        data: null,
+        error: { message: `Cannot update the definition of ${kind} functions` },
+      }
+    }
+
     const args = currentFunc!.argument_types.split(', ')
     const identityArgs = currentFunc!.identity_argument_types
+    const routine = `${ident(currentFunc!.schema)}.${ident(currentFunc!.name)}(${identityArgs})`
 
+    // The definition can only be changed by replacing the whole function, which
+    // resets the other attributes to what's passed, so they're carried over.
     const updateDefinitionSql =
-      typeof definition === 'string'
-        ? this.generateCreateFunctionSql(
-            {
-              ...currentFunc!,
-              definition,
-              args,
-              config_params: currentFunc!.config_params ?? {},
-            },
-            { replace: true }
-          )
-        : ''
+      typeof definition === 'string' && (kind === 'function' || kind === 'procedure')
+        ? `
+      DO LANGUAGE plpgsql $$
+      BEGIN
+        ${this.generateCreateFunctionSql(
+          {
+            ...currentFunc!,
+            kind,
+            definition,
+            args,
+            return_type: currentFunc!.return_type ?? undefined,
+            config_params: currentFunc!.config_params ?? {},
+            rows: currentFunc!.rows ?? undefined,
+          },
+          { replace: true }
+        )}
 
-    const updateNameSql =
-      name && name !== currentFunc!.name
-        ? `ALTER FUNCTION ${ident(currentFunc!.schema)}.${ident(
+        IF (
+          SELECT id
+          FROM (${functionsSql}) AS f
+          WHERE f.schema = ${literal(currentFunc!.schema)}
+          AND f.name = ${literal(currentFunc!.name)}
+          AND f.identity_argument_types = ${literal(identityArgs)}
+        ) != ${id} THEN
+          RAISE EXCEPTION 'Cannot find function "${currentFunc!.schema}"."${
             currentFunc!.name
-          )}(${identityArgs}) RENAME TO ${ident(name)};`
+          }"(${identityArgs})';
+        END IF;
+      END;
+      $$;`
         : ''
 
+    const attributesSql = generateAttributesSql({
+      behavior,
+      security_definer,
+      is_strict,
+      is_leakproof,
+      parallel,
+      cost,
+      rows,
+    })
+    const updateAttributesSql = attributesSql ? `ALTER ROUTINE ${routine} ${attributesSql};` : ''
+
+    const updateConfigParamsSql =
+      config_params === undefined
+        ? ''
+        : `ALTER ROUTINE ${routine} RESET ALL ${generateConfigParamsSql(config_params)};`
+
+    const updateOwnerSql =
+      owner === undefined ? '' : `ALTER ROUTINE ${routine} OWNER TO ${ident(owner)};`
+
+    const updateCommentSql =
+      comment === undefined ? '' : `COMMENT ON ROUTINE ${routine} IS ${literal(comment)};`
+
+    const updateNameSql =
+      name && name !== currentFunc!.name ? `ALTER ROUTINE ${routine} RENAME TO ${ident(name)};` : ''
+
     const updateSchemaSql =
       schema && schema !== currentFunc!.schema
-        ? `ALTER FUNCTION ${ident(currentFunc!.schema)}.${ident(
+        ? `ALTER ROUTINE ${ident(currentFunc!.schema)}.${ident(
             name || currentFunc!.name
           )}(${identityArgs})  SET SCHEMA ${ident(schema)};`
         : ''
 
+    // updateNameSql and updateSchemaSql must be last
     const sql = `
-      DO LANGUAGE plpgsql $$
-      BEGIN
-        IF ${typeof definition === 'string' ? 'TRUE' : 'FALSE'} THEN
-          ${updateDefinitionSql}
-
-          IF (
-            SELECT id
-            FROM (${functionsSql}) AS f
-            WHERE f.schema = ${literal(currentFunc!.schema)}
-            AND f.name = ${literal(currentFunc!.name)}
-            AND f.identity_argument_types = ${literal(identityArgs)}
-          ) != ${id} THEN
-            RAISE EXCEPTION 'Cannot find function "${currentFunc!.schema}"."${
-              currentFunc!.name
-            }"(${identityArgs})';
-          END IF;
-        END IF;
-
-        ${updateNameSql}
-
-        ${updateSchemaSql}
-      END;
-      $$;
+      ${updateDefinitionSql}
+      ${updateAttributesSql}
+      ${updateConfigParamsSql}
+      ${updateOwnerSql}
+      ${updateCommentSql}
+      ${updateNameSql}
+      ${updateSchemaSql}
     `
 
     {
@@ -214,7 +278,8 @@ export default class PostgresMetaFunctions {
     if (error) {
       return { data: null, error }
     }
-    const sql = `DROP FUNCTION ${ident(func!.schema)}.${ident(func!.name)}
+    // ROUTINE covers functions, procedures and aggregates alike.
+    const sql = `DROP ROUTINE ${ident(func!.schema)}.${ident(func!.name)}
     (${func!.identity_argument_types})
     ${cascade ? 'CASCADE' : 'RESTRICT'};`
     {
@@ -226,9 +291,38 @@ export default class PostgresMetaFunctions {
     return { data: func!, error: null }
   }
 
+  /**
+   * Runs `CALL` on a procedure, returning the values of its OUT and INOUT
+   * arguments, if any. It's sent as a single statement so the procedure can
+   * use transaction control, which isn't possible within a batch.
+   */
+  async call(
+    id: number,
+    { args = [] }: PostgresFunctionCall = {}
+  ): Promise<PostgresMetaResult<Record<string, unknown> | null>> {
+    const { data: func, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const argsSql = Array.isArray(args)
+      ? args.map((x) => literal(x)).join(', ')
+      : Object.entries(args)
+          .map(([name, value]) => `${ident(name)} => ${literal(value)}`)
+          .join(', ')
+    const sql = `CALL ${ident(func!.schema)}.${ident(func!.name)}(${argsSql})`
+    {
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+      return { data: data[0] ?? null, error: null }
+    }
+  }
+
   private generateCreateFunctionSql(
     {
       name,
+      kind = 'function',
       schema,
       args,
       definition,
@@ -237,29 +331,30 @@ export default class PostgresMetaFunctions {
       behavior,
       security_definer,
       config_params,
+      is_strict = false,
+      is_leakproof,
+      parallel,
+      cost,
+      rows,
     }: PostgresFunctionCreate,
     { replace = false } = {}
   ): string {
+    // Procedures don't return anything and have no volatility or strictness.
+    // Note that procedures with SECURITY DEFINER or SET can't use transaction
+    // control.
     return `
-      CREATE ${replace ? 'OR REPLACE' : ''} FUNCTION ${ident(schema!)}.${ident(name!)}(${
-        args?.join(', ') || ''
-      })
-      RETURNS ${return_type}
+      CREATE ${replace ? 'OR REPLACE' : ''} ${kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION'} ${ident(
+        schema!
+      )}.${ident(name!)}(${args?.join(', ') || ''})
+      ${kind === 'procedure' ? '' : `RETURNS ${return_type}`}
       AS ${literal(definition)}
       LANGUAGE ${language}
-      ${behavior}
-      CALLED ON NULL INPUT
-      ${security_definer ? 'SECURITY DEFINER' : 'SECURITY INVOKER'}
-      ${
-        config_params
-          ? Object.entries(config_params)
-              .map(
-                ([param, value]: string[]) =>
-                  `SET ${param} ${value[0] === 'FROM CURRENT' ? 'FROM CURRENT' : 'TO ' + value}`
-              )
-              .join('\n')
-          : ''
-      };
+      ${generateAttributesSql(
+        kind === 'procedure'
+          ? { security_definer }
+          : { behavior, security_definer, is_strict, is_leakproof, parallel, cost, rows }
+      )}
+      ${config_params ? generateConfigParamsSql(config_params) : ''};
     `
   }
 
@@ -308,3 +403,53 @@ const enrichedFunctionsSql = `
     f.*
   FROM f
 `
+
+const generateAttributesSql = ({
+  behavior,
+  security_definer,
+  is_strict,
+  is_leakproof,
+  parallel,
+  cost,
+  rows,
+}: {
+  behavior?: 'IMMUTABLE' | 'STABLE' | 'VOLATILE'
+  security_definer?: boolean
+  is_strict?: boolean
+  is_leakproof?: boolean
+  parallel?: 'SAFE' | 'RESTRICTED' | 'UNSAFE'
+  cost?: number
+  rows?: number
+}): string => {
+  let sql = ''
+  if (behavior !== undefined) {
+    sql += ` ${behavior}`
+  }
+  if (security_definer !== undefined) {
+    sql += security_definer ? ' SECURITY DEFINER' : ' SECURITY INVOKER'
+  }
+  if (is_strict !== undefined) {
+    sql += is_strict ? ' STRICT' : ' CALLED ON NULL INPUT'
+  }
+  if (is_leakproof !== undefined) {
+    sql += is_leakproof ? ' LEAKPROOF' : ' NOT LEAKPROOF'
+  }
+  if (parallel !== undefined) {
+    sql += ` PARALLEL ${parallel}`
+  }
+  if (cost !== undefined) {
+    sql += ` COST ${cost}`
+  }
+  if (rows !== undefined) {
+    sql += ` ROWS ${rows}`
+  }
+  return sql
+}
+
+const generateConfigParamsSql = (configParams: Record<string, string>): string =>
+  Object.entries(configParams)
+    .map(
+      ([param, value]: string[]) =>
+        `SET ${ident(param)} ${value === 'FROM CURRENT' ? 'FROM CURRENT' : 'TO ' + value}`
+    )
+    .join('\n')
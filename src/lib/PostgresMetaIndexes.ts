@@ -1,10 +1,10 @@
 import { ident, literal } from 'pg-format'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
-import { filterByList } from './helpers.js'
+import { filterByList, generateChooseObjectNameSql, generateQualifiedIdent } from './helpers.js'
 import { indexesSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresIndex } from './types.js'
+import { PostgresMetaResult, PostgresIndex, PostgresIndexCreate } from './types.js'
 
-export default class PostgresMetaFunctions {
+export default class PostgresMetaIndexes {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
 
   constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
@@ -46,18 +46,18 @@ export default class PostgresMetaFunctions {
   async retrieve({
     name,
     schema,
-    args,
   }: {
     name: string
     schema: string
-    args: string[]
   }): Promise<PostgresMetaResult<PostgresIndex>>
   async retrieve({
     id,
-    args = [],
+    name,
+    schema = 'public',
   }: {
     id?: number
-    args?: string[]
+    name?: string
+    schema?: string
   }): Promise<PostgresMetaResult<PostgresIndex>> {
     if (id) {
       const sql = `${enrichedSql} WHERE id = ${literal(id)};`
@@ -65,13 +65,169 @@ export default class PostgresMetaFunctions {
       if (error) {
         return { data, error }
       } else if (data.length === 0) {
-        return { data: null, error: { message: `Cannot find a index with ID ${id}` } }
+        return { data: null, error: { message: `Cannot find an index with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${enrichedSql} WHERE name = ${literal(name)} AND schema = ${literal(schema)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find an index named ${name} in schema ${schema}` },
+        }
       } else {
         return { data: data[0], error }
       }
     } else {
-      return { data: null, error: { message: 'Invalid parameters on function retrieve' } }
+      return { data: null, error: { message: 'Invalid parameters on index retrieve' } }
+    }
+  }
+
+  async create({
+    table_id,
+    name,
+    columns,
+    access_method,
+    is_unique = false,
+    nulls_not_distinct = false,
+    include,
+    where,
+    concurrently = false,
+    comment,
+  }: PostgresIndexCreate): Promise<PostgresMetaResult<PostgresIndex>> {
+    const { data: tables, error } = await this.query(`
+select n.nspname as schema, c.relname as name
+from pg_class c join pg_namespace n on n.oid = c.relnamespace
+where c.oid = ${literal(table_id)};`)
+    if (error) {
+      return { data: null, error }
+    } else if (tables.length === 0) {
+      return { data: null, error: { message: `Cannot find a table with ID ${table_id}` } }
+    }
+    const table = tables[0]
+    // The index is always created with a name so it can be looked up
+    // afterwards, including when a failed concurrent build leaves an invalid
+    // index behind. Without one, it's named the way Postgres would, with
+    // `expr` for expressions.
+    let indexName = name
+    if (indexName === undefined) {
+      const { data, error } = await this.query(
+        generateChooseObjectNameSql(
+          table.schema,
+          table.name,
+          [...columns.map(({ name }) => name ?? 'expr'), ...(include ?? [])],
+          'idx'
+        )
+      )
+      if (error) {
+        return { data: null, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot choose a name for the index on ${table.name}` },
+        }
+      }
+      indexName = data[0].name as string
+    }
+
+    const columnsSql = columns
+      .map(({ name, expression, collation, opclass, order, nulls }) => {
+        const key = name === undefined ? `(${expression})` : ident(name)
+        const collateClause = collation === undefined ? '' : `COLLATE ${ident(collation)}`
+        const nullsClause = nulls === undefined ? '' : `NULLS ${nulls}`
+        const opclassClause = opclass === undefined ? '' : generateQualifiedIdent(opclass)
+        return `${key} ${collateClause} ${opclassClause} ${order ?? ''} ${nullsClause}`
+      })
+      .join(',')
+    const includeClause =
+      include === undefined ? '' : `INCLUDE (${include.map((x) => ident(x)).join(',')})`
+    const whereClause = where === undefined ? '' : `WHERE ${where}`
+    const sql = `
+CREATE ${is_unique ? 'UNIQUE' : ''} INDEX ${concurrently ? 'CONCURRENTLY' : ''} ${ident(indexName)}
+  ON ${ident(table.schema)}.${ident(table.name)}
+  USING ${access_method ?? 'btree'} (${columnsSql})
+  ${includeClause}
+  ${nulls_not_distinct ? 'NULLS NOT DISTINCT' : ''}
+  ${whereClause};`
+    const { error: createError } = await this.query(sql)
+
+    const { data: index, error: indexError } = await this.retrieve({
+      name: indexName,
+      schema: table.schema,
+    })
+    if (createError) {
+      // A valid index is one that already had the name.
+      if (concurrently && !indexError && !index!.is_valid) {
+        const { id, schema, name } = index!
+        return {
+          data: null,
+          error: {
+            ...createError,
+            message: `${createError.message}. The failed concurrent build left behind the invalid index ${schema}.${name} (ID ${id}), which should be dropped or reindexed.`,
+          },
+        }
+      }
+      return { data: null, error: createError }
+    }
+    if (indexError) {
+      return { data: null, error: indexError }
+    }
+
+    // Separately, since CONCURRENTLY can't run in the implicit transaction of
+    // a multi-statement query.
+    if (comment !== undefined) {
+      const { error } = await this.query(
+        `COMMENT ON INDEX ${ident(index!.schema)}.${ident(index!.name)} IS ${literal(comment)};`
+      )
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id: index!.id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false, concurrently = false } = {}
+  ): Promise<PostgresMetaResult<PostgresIndex>> {
+    const { data: index, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP INDEX ${concurrently ? 'CONCURRENTLY' : ''} ${ident(index!.schema)}.${ident(
+      index!.name
+    )} ${cascade ? 'CASCADE' : 'RESTRICT'};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: index!, error: null }
+  }
+
+  async reindex(
+    id: number,
+    { concurrently = false } = {}
+  ): Promise<PostgresMetaResult<PostgresIndex>> {
+    const { data: index, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `REINDEX INDEX ${concurrently ? 'CONCURRENTLY' : ''} ${ident(
+      index!.schema
+    )}.${ident(index!.name)};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
     }
+    return await this.retrieve({ id })
   }
 }
 
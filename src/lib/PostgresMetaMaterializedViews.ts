@@ -1,7 +1,12 @@
-import { literal } from 'pg-format'
+import { ident, literal } from 'pg-format'
 import { coalesceRowsToArray, filterByList } from './helpers.js'
 import { columnsSql, materializedViewsSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresMaterializedView } from './types.js'
+import {
+  PostgresMetaResult,
+  PostgresMaterializedView,
+  PostgresMaterializedViewCreate,
+  PostgresMaterializedViewUpdate,
+} from './types.js'
 
 export default class PostgresMetaMaterializedViews {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -101,6 +106,152 @@ export default class PostgresMetaMaterializedViews {
       return { data: null, error: { message: 'Invalid parameters on materialized view retrieve' } }
     }
   }
+
+  async create({
+    schema = 'public',
+    name,
+    query,
+    with_data = true,
+    tablespace,
+    storage_parameters,
+    comment,
+  }: PostgresMaterializedViewCreate): Promise<PostgresMetaResult<PostgresMaterializedView>> {
+    // Parameters can be namespaced, e.g. `toast.autovacuum_enabled`.
+    const storageParametersSql =
+      storage_parameters === undefined || Object.keys(storage_parameters).length === 0
+        ? ''
+        : `WITH (${Object.entries(storage_parameters)
+            .map(([key, value]) => {
+              const parameter = key
+                .split('.')
+                .map((x) => ident(x))
+                .join('.')
+              return `${parameter} = ${literal(value)}`
+            })
+            .join(', ')})`
+    const tablespaceSql = tablespace === undefined ? '' : `TABLESPACE ${ident(tablespace)}`
+    const viewSql = `CREATE MATERIALIZED VIEW ${ident(schema)}.${ident(
+      name
+    )} ${storageParametersSql} ${tablespaceSql} AS ${query} WITH ${with_data ? '' : 'NO'} DATA;`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON MATERIALIZED VIEW ${ident(schema)}.${ident(name)} IS ${literal(comment)};`
+    const refreshSql = generateRecordRefreshSql(`${ident(schema)}.${ident(name)}`, with_data)
+    const sql = `${viewSql} ${commentSql} ${refreshSql}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name, schema })
+  }
+
+  async update(
+    id: number,
+    { schema, name, comment }: PostgresMaterializedViewUpdate
+  ): Promise<PostgresMetaResult<PostgresMaterializedView>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const alter = `ALTER MATERIALIZED VIEW ${ident(old!.schema)}.${ident(old!.name)}`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON MATERIALIZED VIEW ${ident(old!.schema)}.${ident(old!.name)} IS ${literal(
+            comment
+          )};`
+    const schemaSql = schema === undefined ? '' : `${alter} SET SCHEMA ${ident(schema)};`
+    let nameSql = ''
+    if (name !== undefined && name !== old!.name) {
+      const currentSchema = schema === undefined ? old!.schema : schema
+      nameSql = `ALTER MATERIALIZED VIEW ${ident(currentSchema)}.${ident(
+        old!.name
+      )} RENAME TO ${ident(name)};`
+    }
+    // nameSql must be last, right below schemaSql
+    const sql = `
+  ${commentSql}
+  ${schemaSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresMaterializedView>> {
+    const { data: view, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const relation = `${ident(view!.schema)}.${ident(view!.name)}`
+    // Before the view is gone, so its ID can't be reused with a stale time.
+    const refreshSql =
+      view!.last_refreshed_at === null ? '' : generateRecordRefreshSql(relation, false)
+    const sql = `${refreshSql} DROP MATERIALIZED VIEW ${relation} ${
+      cascade ? 'CASCADE' : 'RESTRICT'
+    };`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: view!, error: null }
+  }
+
+  async refresh(
+    id: number,
+    { concurrently = false } = {}
+  ): Promise<PostgresMetaResult<PostgresMaterializedView>> {
+    const { data: view, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    if (concurrently) {
+      // Same requirement Postgres checks, but only after doing all the work of
+      // the refresh: a unique index on plain columns, without a WHERE clause.
+      const { data, error } = await this.query(`
+select exists (
+  select
+  from pg_index
+  where indrelid = ${literal(id)} and indisunique and indisvalid
+    and indexprs is null and indpred is null
+) as has_unique_index;`)
+      if (error) {
+        return { data: null, error }
+      }
+      if (!data[0].has_unique_index) {
+        return {
+          data: null,
+          error: {
+            message: `Materialized view ${view!.schema}.${
+              view!.name
+            } needs a unique index on its columns, with no WHERE clause, to be refreshed concurrently`,
+          },
+        }
+      }
+    }
+    const relation = `${ident(view!.schema)}.${ident(view!.name)}`
+    const sql = `REFRESH MATERIALIZED VIEW ${
+      concurrently ? 'CONCURRENTLY' : ''
+    } ${relation}; ${generateRecordRefreshSql(relation, true)}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
 }
 
 const generateEnrichedMaterializedViewsSql = ({ includeColumns }: { includeColumns: boolean }) => `
@@ -114,3 +265,27 @@ select
       : ''
   }
 from materialized_views`
+
+// Postgres doesn't keep when a materialized view was refreshed, so pg-meta
+// records it in its own table, created on first use. Without the privileges
+// to do so, the refresh still goes through, just without being recorded.
+const generateRecordRefreshSql = (relation: string, refreshed: boolean) => {
+  const recordSql = !refreshed
+    ? `DELETE FROM pg_meta.materialized_view_refreshes WHERE id = ${literal(relation)}::regclass;`
+    : `INSERT INTO pg_meta.materialized_view_refreshes (id, refreshed_at)
+  VALUES (${literal(relation)}::regclass, now())
+  ON CONFLICT (id) DO UPDATE SET refreshed_at = excluded.refreshed_at;`
+  return `DO ${literal(`
+BEGIN
+  IF to_regclass('pg_meta.materialized_view_refreshes') IS NULL THEN
+    CREATE SCHEMA IF NOT EXISTS pg_meta;
+    CREATE TABLE pg_meta.materialized_view_refreshes (
+      id oid PRIMARY KEY,
+      refreshed_at timestamptz NOT NULL
+    );
+  END IF;
+  ${recordSql}
+EXCEPTION WHEN insufficient_privilege THEN
+  NULL;
+END`)};`
+}
@@ -153,7 +153,7 @@ CREATE POLICY ${ident(name)} ON ${ident(schema)}.${ident(table)}
     const rolesSql = roles === undefined ? '' : `${alter} TO ${roles.map(ident).join(',')};`
 
     // nameSql must be last
-    const sql = `BEGIN; ${definitionSql} ${checkSql} ${rolesSql} ${nameSql} COMMIT;`
+    const sql = `${definitionSql} ${checkSql} ${rolesSql} ${nameSql}`
     {
       const { error } = await this.query(sql)
       if (error) {
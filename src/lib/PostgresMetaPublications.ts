@@ -220,6 +220,8 @@ begin
   -- We need to retrieve the publication later, so we need a way to uniquely identify which publication this is.
   -- We can't rely on id because it gets changed if it got recreated.
   -- We use a temp table to store the unique name - DO blocks can't return a value.
+  -- It may already exist if several publications are updated within the same transaction.
+  drop table if exists pg_meta_publication_tmp;
   create temp table pg_meta_publication_tmp (name) on commit drop as values (coalesce(new_name, old.pubname));
 end $$;
 
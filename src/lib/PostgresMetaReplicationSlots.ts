@@ -0,0 +1,87 @@
+import { literal } from 'pg-format'
+import { replicationSlotsSql } from './sql/index.js'
+import {
+  PostgresMetaResult,
+  PostgresReplicationSlot,
+  PostgresReplicationSlotCreate,
+} from './types.js'
+
+export default class PostgresMetaReplicationSlots {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    limit,
+    offset,
+  }: {
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresReplicationSlot[]>> {
+    let sql = enrichedSql
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  // Slots have no OID, so they're identified by name.
+  async retrieve({ name }: { name: string }): Promise<PostgresMetaResult<PostgresReplicationSlot>> {
+    const sql = `${enrichedSql} WHERE name = ${literal(name)};`
+    const { data, error } = await this.query(sql)
+    if (error) {
+      return { data, error }
+    } else if (data.length === 0) {
+      return { data: null, error: { message: `Cannot find a replication slot named ${name}` } }
+    } else {
+      return { data: data[0], error }
+    }
+  }
+
+  async create(
+    slot: PostgresReplicationSlotCreate
+  ): Promise<PostgresMetaResult<PostgresReplicationSlot>> {
+    const sql =
+      slot.type === 'logical'
+        ? `SELECT pg_create_logical_replication_slot(${literal(slot.name)}, ${literal(
+            slot.plugin ?? 'pgoutput'
+          )});`
+        : `SELECT pg_create_physical_replication_slot(${literal(slot.name)}, ${
+            slot.immediately_reserve ?? false
+          });`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name: slot.name })
+  }
+
+  async remove(name: string): Promise<PostgresMetaResult<PostgresReplicationSlot>> {
+    const { data: slot, error } = await this.retrieve({ name })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `SELECT pg_drop_replication_slot(${literal(name)});`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: slot!, error: null }
+  }
+}
+
+const enrichedSql = `
+  WITH replication_slots AS (
+    ${replicationSlotsSql}
+  )
+  SELECT
+    *
+  FROM replication_slots
+`
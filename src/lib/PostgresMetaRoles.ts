@@ -4,6 +4,9 @@ import {
   PostgresMetaResult,
   PostgresRole,
   PostgresRoleCreate,
+  PostgresRoleGrant,
+  PostgresRoleGraph,
+  PostgresRoleRevoke,
   PostgresRoleUpdate,
 } from './types.js'
 export function changeRoleConfig2Object(config: string[]) {
@@ -148,7 +151,6 @@ WHERE
         .join('\n')
     }
     const sql = `
-BEGIN;
 CREATE ROLE ${ident(name)}
 WITH
   ${isSuperuserClause}
@@ -164,8 +166,7 @@ WITH
   ${memberOfClause}
   ${membersClause}
   ${adminsClause};
-${configClause ? configClause : ''}
-COMMIT;`
+${configClause ? configClause : ''}`
     const { error } = await this.query(sql)
     if (error) {
       return { data: null, error }
@@ -252,7 +253,6 @@ COMMIT;`
     }
     // nameSql must be last
     const sql = `
-BEGIN;
   ALTER ROLE ${ident(old!.name)}
     ${isSuperuserClause}
     ${canCreateDbClause}
@@ -265,8 +265,7 @@ BEGIN;
     ${passwordClause}
     ${validUntilClause};
   ${configClause ? configClause : ''}
-  ${nameSql}
-COMMIT;`
+  ${nameSql}`
     {
       const { error } = await this.query(sql)
       if (error) {
@@ -290,4 +289,160 @@ COMMIT;`
     }
     return { data: role!, error: null }
   }
+
+  async grant(
+    id: number,
+    { role, admin_option, inherit_option, set_option }: PostgresRoleGrant
+  ): Promise<PostgresMetaResult<PostgresRole>> {
+    const { data: member, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    // `WITH ADMIN OPTION` works on all versions, but the INHERIT and SET
+    // options need the PG16+ syntax.
+    let withSql = ''
+    if (inherit_option !== undefined || set_option !== undefined) {
+      withSql = `WITH ${[
+        admin_option === undefined ? '' : `ADMIN ${admin_option}`,
+        inherit_option === undefined ? '' : `INHERIT ${inherit_option}`,
+        set_option === undefined ? '' : `SET ${set_option}`,
+      ]
+        .filter(Boolean)
+        .join(', ')}`
+    } else if (admin_option) {
+      withSql = 'WITH ADMIN OPTION'
+    }
+    const sql = `GRANT ${ident(role)} TO ${ident(member!.name)} ${withSql};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async revoke(
+    id: number,
+    { role, option, cascade = false }: PostgresRoleRevoke
+  ): Promise<PostgresMetaResult<PostgresRole>> {
+    const { data: member, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `REVOKE ${option === undefined ? '' : `${option} OPTION FOR`} ${ident(
+      role
+    )} FROM ${ident(member!.name)} ${cascade ? 'CASCADE' : 'RESTRICT'};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  /**
+   * Returns the roles the role is a member of and the roles that are members
+   * of it, directly or not, along with the grants between them. Before PG16,
+   * where grants have no INHERIT or SET options, inheriting is up to the
+   * member's INHERIT attribute and SET ROLE is always allowed.
+   *
+   * Superusers bypass all of this, so check `is_superuser` too when auditing
+   * who holds a role's privileges.
+   */
+  async graph(id: number): Promise<PostgresMetaResult<PostgresRoleGraph>> {
+    const { error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `
+with recursive
+  edges as (
+    select
+      m.roleid as role_id,
+      m.member as member_id,
+      bool_or(m.admin_option) as admin_option,
+      bool_or(coalesce((to_jsonb(m) ->> 'inherit_option')::bool, r.rolinherit)) as inherit_option,
+      bool_or(coalesce((to_jsonb(m) ->> 'set_option')::bool, true)) as set_option
+    from pg_auth_members m
+    join pg_roles r on r.oid = m.member
+    group by m.roleid, m.member
+  ),
+  ancestors (id, inherits) as (
+    select ${literal(id)}::oid, true
+    union
+    select e.role_id, a.inherits and e.inherit_option
+    from edges e join ancestors a on a.id = e.member_id
+  ),
+  descendants (id, inherits) as (
+    select ${literal(id)}::oid, true
+    union
+    select e.member_id, d.inherits and e.inherit_option
+    from edges e join descendants d on d.id = e.role_id
+  ),
+  nodes as (
+    select
+      id,
+      case when id = ${literal(id)}::oid then 'self' else 'member_of' end as relationship,
+      bool_or(inherits) as inherits
+    from ancestors
+    group by id
+    union all
+    select id, 'member', bool_or(inherits)
+    from descendants
+    where id <> ${literal(id)}::oid
+    group by id
+  )
+select
+  coalesce(
+    (
+      select
+        json_agg(
+          json_build_object(
+            'id', r.oid::int8,
+            'name', r.rolname,
+            'is_superuser', r.rolsuper,
+            'can_login', r.rolcanlogin,
+            'relationship', n.relationship,
+            'inherits', n.inherits
+          )
+          order by n.relationship desc, r.rolname
+        )
+      from nodes n join pg_roles r on r.oid = n.id
+    ),
+    '[]'
+  ) as nodes,
+  coalesce(
+    (
+      select
+        json_agg(
+          json_build_object(
+            'role_id', e.role_id::int8,
+            'member_id', e.member_id::int8,
+            'admin_option', e.admin_option,
+            'inherit_option', e.inherit_option,
+            'set_option', e.set_option
+          )
+          order by e.role_id, e.member_id
+        )
+      from edges e
+      where
+        (
+          e.member_id in (select id from ancestors)
+          and e.role_id in (select id from ancestors)
+        )
+        or (
+          e.role_id in (select id from descendants)
+          and e.member_id in (select id from descendants)
+        )
+    ),
+    '[]'
+  ) as edges;`
+    const { data, error: graphError } = await this.query(sql)
+    if (graphError) {
+      return { data: null, error: graphError }
+    }
+    return { data: data[0], error: null }
+  }
 }
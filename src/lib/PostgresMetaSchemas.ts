@@ -95,7 +95,7 @@ export default class PostgresMetaSchemas {
       name === undefined ? '' : `ALTER SCHEMA ${ident(old!.name)} RENAME TO ${ident(name)};`
     const ownerSql =
       owner === undefined ? '' : `ALTER SCHEMA ${ident(old!.name)} OWNER TO ${ident(owner)};`
-    const sql = `BEGIN; ${ownerSql} ${nameSql} COMMIT;`
+    const sql = `${ownerSql} ${nameSql}`
     {
       const { error } = await this.query(sql)
       if (error) {
@@ -0,0 +1,346 @@
+import { ident, literal } from 'pg-format'
+import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
+import { filterByList } from './helpers.js'
+import { sequencesSql } from './sql/index.js'
+import {
+  PostgresMetaResult,
+  PostgresSequence,
+  PostgresSequenceCreate,
+  PostgresSequenceUpdate,
+} from './types.js'
+
+export default class PostgresMetaSequences {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    includeSystemSchemas = false,
+    includedSchemas,
+    excludedSchemas,
+    limit,
+    offset,
+  }: {
+    includeSystemSchemas?: boolean
+    includedSchemas?: string[]
+    excludedSchemas?: string[]
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresSequence[]>> {
+    let sql = enrichedSql
+    const filter = filterByList(
+      includedSchemas,
+      excludedSchemas,
+      !includeSystemSchemas ? DEFAULT_SYSTEM_SCHEMAS : undefined
+    )
+    if (filter) {
+      sql += ` WHERE schema ${filter}`
+    }
+    if (limit) {
+      sql += ` LIMIT ${limit}`
+    }
+    if (offset) {
+      sql += ` OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresSequence>>
+  async retrieve({
+    name,
+    schema,
+  }: {
+    name: string
+    schema: string
+  }): Promise<PostgresMetaResult<PostgresSequence>>
+  async retrieve({
+    id,
+    name,
+    schema = 'public',
+  }: {
+    id?: number
+    name?: string
+    schema?: string
+  }): Promise<PostgresMetaResult<PostgresSequence>> {
+    if (id) {
+      const sql = `${enrichedSql} WHERE id = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a sequence with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${enrichedSql} WHERE name = ${literal(name)} AND schema = ${literal(schema)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find a sequence named ${name} in schema ${schema}` },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on sequence retrieve' } }
+    }
+  }
+
+  async create({
+    schema = 'public',
+    name,
+    data_type,
+    start_value,
+    increment,
+    min_value,
+    max_value,
+    is_cycled,
+    cache_size,
+    owned_by,
+    comment,
+  }: PostgresSequenceCreate): Promise<PostgresMetaResult<PostgresSequence>> {
+    let ownedBySql = ''
+    if (owned_by !== undefined) {
+      const { data, error } = await this.generateOwnedBySql(owned_by)
+      if (error) {
+        return { data: null, error }
+      }
+      ownedBySql = data
+    }
+    const sql = `
+CREATE SEQUENCE ${ident(schema)}.${ident(name)}
+  ${data_type === undefined ? '' : `AS ${data_type}`}
+  ${generateSequenceOptionsSql({
+    start_value,
+    increment,
+    min_value,
+    max_value,
+    is_cycled,
+    cache_size,
+  })}
+  ${ownedBySql};
+${
+  comment === undefined
+    ? ''
+    : `COMMENT ON SEQUENCE ${ident(schema)}.${ident(name)} IS ${literal(comment)};`
+}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ schema, name })
+  }
+
+  async update(
+    id: number,
+    {
+      schema,
+      name,
+      data_type,
+      start_value,
+      restart_value,
+      increment,
+      min_value,
+      max_value,
+      is_cycled,
+      cache_size,
+      owned_by,
+      comment,
+    }: PostgresSequenceUpdate
+  ): Promise<PostgresMetaResult<PostgresSequence>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    let ownedBySql = ''
+    if (owned_by === null) {
+      ownedBySql = 'OWNED BY NONE'
+    } else if (owned_by !== undefined) {
+      const { data, error } = await this.generateOwnedBySql(owned_by)
+      if (error) {
+        return { data: null, error }
+      }
+      ownedBySql = data
+    }
+
+    const alter = `ALTER SEQUENCE ${ident(old!.schema)}.${ident(old!.name)}`
+    const optionsSql = `${data_type === undefined ? '' : `AS ${data_type}`}
+  ${generateSequenceOptionsSql({
+    start_value,
+    increment,
+    min_value,
+    max_value,
+    is_cycled,
+    cache_size,
+  })}
+  ${restart_value === undefined ? '' : `RESTART WITH ${restart_value}`}
+  ${ownedBySql}`
+    const alterSql = optionsSql.trim() === '' ? '' : `${alter} ${optionsSql};`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON SEQUENCE ${ident(old!.schema)}.${ident(old!.name)} IS ${literal(comment)};`
+    const schemaSql = schema === undefined ? '' : `${alter} SET SCHEMA ${ident(schema)};`
+    let nameSql = ''
+    if (name !== undefined && name !== old!.name) {
+      const currentSchema = schema === undefined ? old!.schema : schema
+      nameSql = `ALTER SEQUENCE ${ident(currentSchema)}.${ident(old!.name)} RENAME TO ${ident(
+        name
+      )};`
+    }
+    // nameSql must be last, right below schemaSql
+    const sql = `
+  ${alterSql}
+  ${commentSql}
+  ${schemaSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(
+    id: number,
+    { cascade = false } = {}
+  ): Promise<PostgresMetaResult<PostgresSequence>> {
+    const { data: sequence, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP SEQUENCE ${ident(sequence!.schema)}.${ident(sequence!.name)} ${
+      cascade ? 'CASCADE' : 'RESTRICT'
+    };`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: sequence!, error: null }
+  }
+
+  /**
+   * Moves the sequence past the values already in its owning column, e.g.
+   * after rows were inserted with explicit ids. The next value is the column's
+   * max (min for descending sequences) plus the increment, or the start value
+   * if the table is empty.
+   */
+  async resync(id: number): Promise<PostgresMetaResult<PostgresSequence>> {
+    const { data: sequence, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const {
+      schema,
+      name,
+      start_value,
+      increment,
+      owned_by_schema,
+      owned_by_table,
+      owned_by_column,
+    } = sequence!
+    if (owned_by_column === null) {
+      return {
+        data: null,
+        error: {
+          message: `Sequence ${schema}.${name} isn't owned by a column, so there's nothing to resync it with`,
+        },
+      }
+    }
+    const aggregate = `${Number(increment) > 0 ? 'max' : 'min'}(${ident(owned_by_column)})`
+    const sql = `
+SELECT setval(
+  ${literal(`${ident(schema)}.${ident(name)}`)},
+  coalesce(${aggregate}, ${literal(start_value)}),
+  ${aggregate} IS NOT NULL
+)
+FROM ${ident(owned_by_schema!)}.${ident(owned_by_table!)};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  private async generateOwnedBySql({
+    table_id,
+    column,
+  }: {
+    table_id: number
+    column: string
+  }): Promise<PostgresMetaResult<string>> {
+    const { data, error } = await this.query(`
+select n.nspname as schema, c.relname as name
+from pg_class c join pg_namespace n on n.oid = c.relnamespace
+where c.oid = ${literal(table_id)};`)
+    if (error) {
+      return { data: null, error }
+    } else if (data.length === 0) {
+      return { data: null, error: { message: `Cannot find a table with ID ${table_id}` } }
+    }
+    const table = data[0]
+    return {
+      data: `OWNED BY ${ident(table.schema)}.${ident(table.name)}.${ident(column)}`,
+      error: null,
+    }
+  }
+}
+
+const generateSequenceOptionsSql = ({
+  start_value,
+  increment,
+  min_value,
+  max_value,
+  is_cycled,
+  cache_size,
+}: {
+  start_value?: number
+  increment?: number
+  min_value?: number
+  max_value?: number
+  is_cycled?: boolean
+  cache_size?: number
+}): string => {
+  let sql = ''
+  if (increment !== undefined) {
+    sql += ` INCREMENT BY ${increment}`
+  }
+  if (min_value !== undefined) {
+    sql += ` MINVALUE ${min_value}`
+  }
+  if (max_value !== undefined) {
+    sql += ` MAXVALUE ${max_value}`
+  }
+  if (start_value !== undefined) {
+    sql += ` START WITH ${start_value}`
+  }
+  if (cache_size !== undefined) {
+    sql += ` CACHE ${cache_size}`
+  }
+  if (is_cycled !== undefined) {
+    sql += is_cycled ? ' CYCLE' : ' NO CYCLE'
+  }
+  return sql
+}
+
+const enrichedSql = `
+  WITH sequences AS (
+    ${sequencesSql}
+  )
+  SELECT
+    *
+  FROM sequences
+`
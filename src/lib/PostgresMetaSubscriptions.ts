@@ -0,0 +1,225 @@
+import { ident, literal } from 'pg-format'
+import { subscriptionConnectionsSql, subscriptionsSql } from './sql/index.js'
+import {
+  PostgresMetaResult,
+  PostgresSubscription,
+  PostgresSubscriptionCreate,
+  PostgresSubscriptionUpdate,
+} from './types.js'
+
+export default class PostgresMetaSubscriptions {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    limit,
+    offset,
+  }: {
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresSubscription[]>> {
+    const { data: enrichedSql, error } = await this.generateEnrichedSql()
+    if (error) {
+      return { data: null, error }
+    }
+    let sql = enrichedSql!
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresSubscription>>
+  async retrieve({ name }: { name: string }): Promise<PostgresMetaResult<PostgresSubscription>>
+  async retrieve({
+    id,
+    name,
+  }: {
+    id?: number
+    name?: string
+  }): Promise<PostgresMetaResult<PostgresSubscription>> {
+    const { data: enrichedSql, error } = await this.generateEnrichedSql()
+    if (error) {
+      return { data: null, error }
+    }
+    if (id) {
+      const sql = `${enrichedSql} WHERE id = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a subscription with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${enrichedSql} WHERE name = ${literal(name)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a subscription named ${name}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on subscription retrieve' } }
+    }
+  }
+
+  async create({
+    name,
+    connection,
+    publications,
+    enabled,
+    copy_data,
+    create_slot,
+    slot_name,
+    comment,
+  }: PostgresSubscriptionCreate): Promise<PostgresMetaResult<PostgresSubscription>> {
+    const withSql = generateWithSql({ enabled, copy_data, create_slot, slot_name })
+    // Statements are run one at a time, since CREATE SUBSCRIPTION can't run in
+    // the implicit transaction of a multi-statement query when creating a slot.
+    const sqls = [
+      `CREATE SUBSCRIPTION ${ident(name)} CONNECTION ${literal(
+        connection
+      )} PUBLICATION ${publications.map((x) => ident(x)).join(',')} ${withSql};`,
+    ]
+    if (comment !== undefined) {
+      sqls.push(`COMMENT ON SUBSCRIPTION ${ident(name)} IS ${literal(comment)};`)
+    }
+    for (const sql of sqls) {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ name })
+  }
+
+  async update(
+    id: number,
+    {
+      name,
+      owner,
+      enabled,
+      connection,
+      slot_name,
+      publications,
+      refresh,
+      copy_data,
+      comment,
+    }: PostgresSubscriptionUpdate
+  ): Promise<PostgresMetaResult<PostgresSubscription>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const alter = `ALTER SUBSCRIPTION ${ident(old!.name)}`
+    // Run one at a time like in create(), since refreshing publications can't
+    // run in a transaction either. Disabling comes first, so that the slot can
+    // be changed, and enabling after.
+    const sqls: string[] = []
+    if (enabled === false) {
+      sqls.push(`${alter} DISABLE;`)
+    }
+    if (connection !== undefined) {
+      sqls.push(`${alter} CONNECTION ${literal(connection)};`)
+    }
+    if (slot_name !== undefined) {
+      sqls.push(`${alter} SET (slot_name = ${slot_name === null ? 'NONE' : literal(slot_name)});`)
+    }
+    if (publications !== undefined) {
+      sqls.push(
+        `${alter} SET PUBLICATION ${publications.map((x) => ident(x)).join(',')} ${generateWithSql({
+          refresh: refresh ?? true,
+          copy_data: refresh === false ? undefined : copy_data,
+        })};`
+      )
+    } else if (refresh) {
+      sqls.push(`${alter} REFRESH PUBLICATION ${generateWithSql({ copy_data })};`)
+    }
+    if (enabled === true) {
+      sqls.push(`${alter} ENABLE;`)
+    }
+    if (owner !== undefined) {
+      sqls.push(`${alter} OWNER TO ${ident(owner)};`)
+    }
+    if (comment !== undefined) {
+      sqls.push(`COMMENT ON SUBSCRIPTION ${ident(old!.name)} IS ${literal(comment)};`)
+    }
+    // Renaming must be last
+    if (name !== undefined && name !== old!.name) {
+      sqls.push(`${alter} RENAME TO ${ident(name)};`)
+    }
+    for (const sql of sqls) {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  /**
+   * Drops the subscription, along with its slot on the publisher unless
+   * `slot_name` was set to null beforehand.
+   */
+  async remove(id: number): Promise<PostgresMetaResult<PostgresSubscription>> {
+    const { data: subscription, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP SUBSCRIPTION ${ident(subscription!.name)};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: subscription!, error: null }
+  }
+
+  // Connection strings are only readable by superusers, unless granted, and
+  // reading them otherwise fails the whole query.
+  private async generateEnrichedSql(): Promise<PostgresMetaResult<string>> {
+    const { data, error } = await this.query(
+      `select has_column_privilege('pg_catalog.pg_subscription', 'subconninfo', 'select') as can_read_connection;`
+    )
+    if (error) {
+      return { data: null, error }
+    }
+    const [{ can_read_connection }] = data
+    return {
+      data: `
+  WITH subscriptions AS (
+    ${subscriptionsSql}
+  )
+  ${can_read_connection ? `, connections AS (${subscriptionConnectionsSql})` : ''}
+  SELECT
+    subscriptions.*,
+    ${can_read_connection ? 'connections.connection' : 'NULL AS connection'}
+  FROM subscriptions
+  ${can_read_connection ? 'LEFT JOIN connections USING (id)' : ''}
+`,
+      error: null,
+    }
+  }
+}
+
+const generateWithSql = (options: Record<string, boolean | string | undefined>) => {
+  const entries = Object.entries(options).filter(([_, value]) => value !== undefined)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `WITH (${entries
+    .map(([key, value]) => `${key} = ${typeof value === 'boolean' ? value : literal(value)}`)
+    .join(', ')})`
+}
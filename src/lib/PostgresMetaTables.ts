@@ -1,11 +1,20 @@
 import { ident, literal } from 'pg-format'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
-import { coalesceRowsToArray, filterByList } from './helpers.js'
+import {
+  coalesceRowsToArray,
+  filterByList,
+  generateColumnDefinitionSql,
+  generateDeferrableSql,
+} from './helpers.js'
 import { columnsSql, tablesSql } from './sql/index.js'
 import {
   PostgresMetaResult,
   PostgresTable,
   PostgresTableCreate,
+  PostgresTableDuplicate,
+  PostgresTablePartitionAttach,
+  PostgresTablePartitionCreate,
+  PostgresTableRangePartitionsCreate,
   PostgresTableUpdate,
 } from './types.js'
 
@@ -114,21 +123,109 @@ export default class PostgresMetaTables {
     }
   }
 
+  /**
+   * Creates the table along with its columns, constraints, row level security
+   * etc. in a single query, so it's either created in full or not at all.
+   */
   async create({
     name,
     schema = 'public',
+    columns = [],
+    primary_keys = [],
+    constraints = [],
+    unlogged = false,
+    inherits = [],
+    like_table_id,
+    storage_parameters,
+    rls_enabled,
+    rls_forced,
+    partition_by,
     comment,
   }: PostgresTableCreate): Promise<PostgresMetaResult<PostgresTable>> {
-    const tableSql = `CREATE TABLE ${ident(schema)}.${ident(name)} ();`
-    const commentSql =
-      comment === undefined
-        ? ''
-        : `COMMENT ON TABLE ${ident(schema)}.${ident(name)} IS ${literal(comment)};`
-    const sql = `BEGIN; ${tableSql} ${commentSql} COMMIT;`
-    const { error } = await this.query(sql)
+    const { data: tableNames, error } = await this.retrieveQualifiedNames([
+      ...inherits,
+      ...(like_table_id === undefined ? [] : [like_table_id]),
+      ...constraints.flatMap((x) => (x.kind === 'foreign_key' ? [x.referenced_table_id] : [])),
+    ])
     if (error) {
       return { data: null, error }
     }
+
+    const tableSql = `${ident(schema)}.${ident(name)}`
+    const alter = `ALTER TABLE ${tableSql}`
+    const elementsSql: string[] = []
+    const columnsSql: string[] = []
+    if (like_table_id !== undefined) {
+      elementsSql.push(`LIKE ${tableNames![like_table_id]} INCLUDING ALL`)
+    }
+    for (const column of columns) {
+      const { data, error } = generateColumnDefinitionSql(column)
+      if (error) {
+        return { data: null, error }
+      }
+      elementsSql.push(data!)
+
+      // Unlike in ALTER TABLE ... ADD COLUMN, these aren't part of the column definition.
+      const alterColumn = `${alter} ALTER COLUMN ${ident(column.name)}`
+      if (column.storage !== undefined) {
+        columnsSql.push(`${alterColumn} SET STORAGE ${column.storage};`)
+      }
+      if (column.statistics_target !== undefined) {
+        columnsSql.push(`${alterColumn} SET STATISTICS ${column.statistics_target};`)
+      }
+      if (column.comment !== undefined) {
+        columnsSql.push(
+          `COMMENT ON COLUMN ${tableSql}.${ident(column.name)} IS ${literal(column.comment)};`
+        )
+      }
+    }
+    if (primary_keys.length !== 0) {
+      elementsSql.push(`PRIMARY KEY (${primary_keys.map((x) => ident(x)).join(',')})`)
+    }
+    for (const constraint of constraints) {
+      elementsSql.push(generateConstraintSql(constraint, tableNames!))
+    }
+
+    let storageParametersSql = ''
+    if (storage_parameters !== undefined && Object.keys(storage_parameters).length !== 0) {
+      storageParametersSql = `WITH (${Object.entries(storage_parameters)
+        .map(
+          // Keys may be namespaced, e.g. `toast.autovacuum_enabled`.
+          ([key, value]) =>
+            `${key
+              .split('.')
+              .map((x) => ident(x))
+              .join('.')} = ${typeof value === 'string' ? literal(value) : value}`
+        )
+        .join(', ')})`
+    }
+    const createSql = `
+CREATE ${unlogged ? 'UNLOGGED' : ''} TABLE ${tableSql} (
+  ${elementsSql.join(',\n  ')}
+)
+  ${inherits.length === 0 ? '' : `INHERITS (${inherits.map((x) => tableNames![x]).join(',')})`}
+  ${partition_by === undefined ? '' : generatePartitionBySql(partition_by)}
+  ${storageParametersSql};`
+    let rlsSql = ''
+    if (rls_enabled !== undefined) {
+      rlsSql += `${alter} ${rls_enabled ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY;`
+    }
+    if (rls_forced !== undefined) {
+      rlsSql += `${alter} ${rls_forced ? 'FORCE' : 'NO FORCE'} ROW LEVEL SECURITY;`
+    }
+    const commentSql =
+      comment === undefined ? '' : `COMMENT ON TABLE ${tableSql} IS ${literal(comment)};`
+    const sql = `
+${createSql}
+${columnsSql.join('\n')}
+${rlsSql}
+${commentSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
     return await this.retrieve({ name, schema })
   }
 
@@ -211,15 +308,13 @@ $$;
         : `COMMENT ON TABLE ${ident(old!.schema)}.${ident(old!.name)} IS ${literal(comment)};`
     // nameSql must be last, right below schemaSql
     const sql = `
-BEGIN;
   ${enableRls}
   ${forceRls}
   ${replicaSql}
   ${primaryKeysSql}
   ${commentSql}
   ${schemaSql}
-  ${nameSql}
-COMMIT;`
+  ${nameSql}`
     {
       const { error } = await this.query(sql)
       if (error) {
@@ -245,6 +340,372 @@ COMMIT;`
     }
     return { data: table!, error: null }
   }
+
+  /**
+   * Creates a copy of the table's columns, defaults, constraints and comments
+   * with `LIKE ... INCLUDING ALL`, optionally along with its rows, indexes,
+   * policies and triggers. Foreign keys aren't copied, and serial columns
+   * keep using the original table's sequences.
+   */
+  async duplicate(
+    id: number,
+    {
+      name,
+      schema,
+      data = false,
+      indexes = false,
+      policies = false,
+      triggers = false,
+    }: PostgresTableDuplicate
+  ): Promise<PostgresMetaResult<PostgresTable>> {
+    const { data: table, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const newSchema = schema ?? table!.schema
+    const oldTableSql = `${ident(table!.schema)}.${ident(table!.name)}`
+    const newTableSql = `${ident(newSchema)}.${ident(name)}`
+
+    let dataSql = ''
+    if (data) {
+      // Generated columns are computed again on insert.
+      const columns = table!.columns!.filter(({ is_generated }) => !is_generated)
+      const columnsSql = columns.map(({ name }) => ident(name)).join(',')
+      dataSql = `
+INSERT INTO ${newTableSql} (${columnsSql}) OVERRIDING SYSTEM VALUE
+  SELECT ${columnsSql} FROM ${oldTableSql};
+${columns
+  .filter(({ is_identity }) => is_identity)
+  .map(
+    ({ name }) => `
+SELECT setval(pg_get_serial_sequence(${literal(newTableSql)}, ${literal(name)}), max(${ident(
+      name
+    )}))
+  FROM ${newTableSql} HAVING max(${ident(name)}) IS NOT NULL;`
+  )
+  .join('')}`
+    }
+
+    // Policies and triggers are recreated from their definitions on the
+    // original table, with the table name swapped out.
+    const { data: definitions, error: definitionsError } = await this.query(`
+with
+  policies as (
+    select
+      format(
+        'CREATE POLICY %I ON %s AS %s FOR %s TO %s%s%s;',
+        pol.polname,
+        ${literal(newTableSql)},
+        case when pol.polpermissive then 'PERMISSIVE' else 'RESTRICTIVE' end,
+        case pol.polcmd
+          when 'r' then 'SELECT'
+          when 'a' then 'INSERT'
+          when 'w' then 'UPDATE'
+          when 'd' then 'DELETE'
+          else 'ALL'
+        end,
+        case
+          when pol.polroles = '{0}' then 'PUBLIC'
+          else (
+            select string_agg(quote_ident(rolname), ',') from pg_roles where oid = any(pol.polroles)
+          )
+        end,
+        ' USING (' || pg_get_expr(pol.polqual, pol.polrelid) || ')',
+        ' WITH CHECK (' || pg_get_expr(pol.polwithcheck, pol.polrelid) || ')'
+      ) as sql
+    from pg_policy pol
+    where ${policies} and pol.polrelid = ${literal(id)}
+  ),
+  triggers as (
+    select
+      overlay(
+        pg_get_triggerdef(t.oid) placing ${literal(` ON ${newTableSql} `)}
+        from position(t.on_table in pg_get_triggerdef(t.oid))
+        for length(t.on_table)
+      ) || ';' || case
+        when t.tgenabled = 'D' then format(' ALTER TABLE %s DISABLE TRIGGER %I;', ${literal(
+          newTableSql
+        )}, t.tgname)
+        else ''
+      end as sql
+    from (
+      select
+        *,
+        ' ON ' || quote_ident(${literal(table!.schema)}) || '.' || quote_ident(${literal(
+          table!.name
+        )}) || ' ' as on_table
+      from pg_trigger
+    ) t
+    where ${triggers} and t.tgrelid = ${literal(id)} and not t.tgisinternal
+  )
+select sql from policies
+union all
+select sql from triggers;`)
+    if (definitionsError) {
+      return { data: null, error: definitionsError }
+    }
+
+    const sql = `
+CREATE TABLE ${newTableSql} (
+  LIKE ${oldTableSql} INCLUDING ALL ${indexes ? '' : 'EXCLUDING INDEXES'}
+);
+${dataSql}
+${
+  policies
+    ? `ALTER TABLE ${newTableSql} ${table!.rls_enabled ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY;
+ALTER TABLE ${newTableSql} ${table!.rls_forced ? 'FORCE' : 'NO FORCE'} ROW LEVEL SECURITY;`
+    : ''
+}
+${definitions.map(({ sql }: { sql: string }) => sql).join('\n')}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ name, schema: newSchema })
+  }
+
+  async createPartition(
+    parentId: number,
+    {
+      name,
+      schema = 'public',
+      partition_bound,
+      partition_by,
+      comment,
+    }: PostgresTablePartitionCreate
+  ): Promise<PostgresMetaResult<PostgresTable>> {
+    const { data: parent, error } = await this.retrieve({ id: parentId })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `
+CREATE TABLE ${ident(schema)}.${ident(name)}
+  PARTITION OF ${ident(parent!.schema)}.${ident(parent!.name)}
+  ${partition_bound}
+  ${partition_by === undefined ? '' : generatePartitionBySql(partition_by)};
+${comment === undefined ? '' : `COMMENT ON TABLE ${ident(schema)}.${ident(name)} IS ${literal(comment)};`}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ name, schema })
+  }
+
+  async attachPartition(
+    parentId: number,
+    { table_id, partition_bound }: PostgresTablePartitionAttach
+  ): Promise<PostgresMetaResult<PostgresTable>> {
+    const { data: parent, error } = await this.retrieve({ id: parentId })
+    if (error) {
+      return { data: null, error }
+    }
+    const { data: table, error: tableError } = await this.retrieve({ id: table_id })
+    if (tableError) {
+      return { data: null, error: tableError }
+    }
+    const sql = `ALTER TABLE ${ident(parent!.schema)}.${ident(
+      parent!.name
+    )} ATTACH PARTITION ${ident(table!.schema)}.${ident(table!.name)} ${partition_bound};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id: table_id })
+  }
+
+  /**
+   * Detaches the partition from its parent, after which it's a table of its
+   * own. With `concurrently`, it's detached without blocking queries on the
+   * parent, which can't be done in a transaction. If that's interrupted, the
+   * partition is left pending until detached again with `finalize`.
+   */
+  async detachPartition(
+    id: number,
+    { concurrently = false, finalize = false } = {}
+  ): Promise<PostgresMetaResult<PostgresTable>> {
+    const { data: table, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    if (table!.partition_parent_id === null) {
+      return {
+        data: null,
+        error: { message: `Table ${table!.schema}.${table!.name} isn't a partition` },
+      }
+    }
+    const { data: parent, error: parentError } = await this.retrieve({
+      id: table!.partition_parent_id,
+    })
+    if (parentError) {
+      return { data: null, error: parentError }
+    }
+    let modeSql = ''
+    if (finalize) {
+      modeSql = 'FINALIZE'
+    } else if (concurrently) {
+      modeSql = 'CONCURRENTLY'
+    }
+    const sql = `ALTER TABLE ${ident(parent!.schema)}.${ident(
+      parent!.name
+    )} DETACH PARTITION ${ident(table!.schema)}.${ident(table!.name)} ${modeSql};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  /**
+   * Creates the next `count` partitions of a table range partitioned by a
+   * date or time column, each spanning `interval`. They're named after the
+   * parent and their lower bound, e.g. events_p20240101.
+   */
+  async createRangePartitions(
+    parentId: number,
+    { interval, count, start }: PostgresTableRangePartitionsCreate
+  ): Promise<PostgresMetaResult<PostgresTable[]>> {
+    const { data: parent, error } = await this.retrieve({ id: parentId })
+    if (error) {
+      return { data: null, error }
+    }
+    if (parent!.partition_strategy !== 'RANGE') {
+      return {
+        data: null,
+        error: { message: `Table ${parent!.schema}.${parent!.name} isn't range partitioned` },
+      }
+    }
+
+    // Without a start, partitions continue from the highest upper bound, e.g.
+    // '2024-02-01' of FOR VALUES FROM ('2024-01-01') TO ('2024-02-01').
+    const startSql =
+      start === undefined
+        ? `(
+    select max(
+      (regexp_match(pg_get_expr(c.relpartbound, c.oid), 'TO \\(''([^'']*)''\\)$'))[1]::timestamptz
+    )
+    from pg_inherits i join pg_class c on c.oid = i.inhrelid
+    where i.inhparent = ${literal(parentId)}
+  )`
+        : `${literal(start)}::timestamptz`
+    const { data: bounds, error: boundsError } = await this.query(`
+with s as (
+  select ${startSql} as start
+)
+select
+  to_char(
+    lower,
+    case when ${literal(interval)}::interval < '1 day' then 'YYYYMMDD_HH24MI' else 'YYYYMMDD' end
+  ) as suffix,
+  lower::text as lower,
+  (lower + ${literal(interval)}::interval)::text as upper
+from s, generate_series(0, ${literal(count - 1)}::int) as g(i),
+  lateral (select s.start + g.i * ${literal(interval)}::interval as lower) as l
+where s.start is not null
+order by g.i;`)
+    if (boundsError) {
+      return { data: null, error: boundsError }
+    }
+    if (bounds.length === 0) {
+      return {
+        data: null,
+        error: {
+          message: `Table ${parent!.schema}.${parent!.name} has no partitions to continue from, so a start is needed`,
+        },
+      }
+    }
+
+    const names = bounds.map(({ suffix }: { suffix: string }) => `${parent!.name}_p${suffix}`)
+    const sql = bounds
+      .map(
+        ({ lower, upper }: { lower: string; upper: string }, i: number) => `
+CREATE TABLE ${ident(parent!.schema)}.${ident(names[i])}
+  PARTITION OF ${ident(parent!.schema)}.${ident(parent!.name)}
+  FOR VALUES FROM (${literal(lower)}) TO (${literal(upper)});`
+      )
+      .join('')
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.query(
+      `${generateEnrichedTablesSql({
+        includeColumns: true,
+      })} where tables.schema = ${literal(parent!.schema)} and tables.name in (${names
+        .map((x: string) => literal(x))
+        .join(',')}) order by tables.name;`
+    )
+  }
+
+  private async retrieveQualifiedNames(
+    ids: number[]
+  ): Promise<PostgresMetaResult<Record<number, string>>> {
+    if (ids.length === 0) {
+      return { data: {}, error: null }
+    }
+    const { data, error } = await this.query(`
+select c.oid::int8 as id, n.nspname as schema, c.relname as name
+from pg_class c join pg_namespace n on n.oid = c.relnamespace
+where c.oid in (${ids.map((x) => literal(x)).join(',')});`)
+    if (error) {
+      return { data: null, error }
+    }
+    const names: Record<number, string> = {}
+    for (const { id, schema, name } of data) {
+      names[id] = `${ident(schema)}.${ident(name)}`
+    }
+    const missingId = ids.find((x) => names[x] === undefined)
+    if (missingId !== undefined) {
+      return { data: null, error: { message: `Cannot find a table with ID ${missingId}` } }
+    }
+    return { data: names, error: null }
+  }
+}
+
+const generatePartitionBySql = ({
+  strategy,
+  key,
+}: {
+  strategy: 'RANGE' | 'LIST' | 'HASH'
+  key: string
+}) => `PARTITION BY ${strategy} (${key})`
+
+const generateConstraintSql = (
+  constraint: NonNullable<PostgresTableCreate['constraints']>[number],
+  tableNames: Record<number, string>
+): string => {
+  const nameSql = constraint.name === undefined ? '' : `CONSTRAINT ${ident(constraint.name)}`
+  switch (constraint.kind) {
+    case 'check':
+      return `${nameSql} CHECK (${constraint.check}) ${constraint.no_inherit ? 'NO INHERIT' : ''}`
+    case 'foreign_key': {
+      const referencedColumnsSql =
+        constraint.referenced_columns === undefined
+          ? ''
+          : `(${constraint.referenced_columns.map((x) => ident(x)).join(',')})`
+      return `${nameSql} FOREIGN KEY (${constraint.columns.map((x) => ident(x)).join(',')})
+    REFERENCES ${tableNames[constraint.referenced_table_id]} ${referencedColumnsSql}
+    ${constraint.match === undefined ? '' : `MATCH ${constraint.match}`}
+    ${constraint.on_update === undefined ? '' : `ON UPDATE ${constraint.on_update}`}
+    ${constraint.on_delete === undefined ? '' : `ON DELETE ${constraint.on_delete}`}
+    ${generateDeferrableSql(constraint)}`
+    }
+    case 'unique':
+      return `${nameSql} UNIQUE (${constraint.columns.map((x) => ident(x)).join(',')}) ${
+        constraint.include === undefined
+          ? ''
+          : `INCLUDE (${constraint.include.map((x) => ident(x)).join(',')})`
+      } ${generateDeferrableSql(constraint)}`
+  }
 }
 
 const generateEnrichedTablesSql = ({ includeColumns }: { includeColumns: boolean }) => `
@@ -220,7 +220,7 @@ export default class PostgresMetaTriggers {
         : ''
 
     // updateNameSql must be last
-    const sql = `BEGIN; ${enabledModeSql}; ${nameSql}; COMMIT;`
+    const sql = `${enabledModeSql}; ${nameSql};`
     {
       const { error } = await this.query(sql)
 
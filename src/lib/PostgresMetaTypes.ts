@@ -1,7 +1,14 @@
+import { ident, literal } from 'pg-format'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
 import { filterByList } from './helpers.js'
 import { typesSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresType } from './types.js'
+import {
+  PostgresMetaResult,
+  PostgresType,
+  PostgresTypeCreate,
+  PostgresTypeDependents,
+  PostgresTypeUpdate,
+} from './types.js'
 
 export default class PostgresMetaTypes {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -52,4 +59,301 @@ export default class PostgresMetaTypes {
     }
     return await this.query(sql)
   }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresType>>
+  async retrieve({
+    name,
+    schema,
+  }: {
+    name: string
+    schema: string
+  }): Promise<PostgresMetaResult<PostgresType>>
+  async retrieve({
+    id,
+    name,
+    schema = 'public',
+  }: {
+    id?: number
+    name?: string
+    schema?: string
+  }): Promise<PostgresMetaResult<PostgresType>> {
+    if (id) {
+      const sql = `${typesSql} and t.oid = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a type with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (name) {
+      const sql = `${typesSql} and t.typname = ${literal(name)} and n.nspname = ${literal(schema)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find a type named ${name} in schema ${schema}` },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on type retrieve' } }
+    }
+  }
+
+  async create(type: PostgresTypeCreate): Promise<PostgresMetaResult<PostgresType>> {
+    const { schema = 'public', name, comment } = type
+    const typeName = `${ident(schema)}.${ident(name)}`
+    let typeSql: string
+    if (type.kind === 'enum') {
+      typeSql = `CREATE TYPE ${typeName} AS ENUM (${type.values.map((x) => literal(x)).join(',')});`
+    } else if (type.kind === 'composite') {
+      typeSql = `CREATE TYPE ${typeName} AS (${type.attributes
+        .map(generateAttributeSql)
+        .join(',')});`
+    } else {
+      const collateClause = type.collation === undefined ? '' : `COLLATE ${ident(type.collation)}`
+      const defaultValueClause =
+        type.default_value === undefined ? '' : `DEFAULT ${type.default_value}`
+      let isNullableClause = ''
+      if (type.is_nullable !== undefined) {
+        isNullableClause = type.is_nullable ? 'NULL' : 'NOT NULL'
+      }
+      const constraintsClause = (type.constraints ?? []).map(generateConstraintSql).join(' ')
+      typeSql = `CREATE DOMAIN ${typeName} AS ${type.base_type} ${collateClause} ${defaultValueClause} ${isNullableClause} ${constraintsClause};`
+    }
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON ${type.kind === 'domain' ? 'DOMAIN' : 'TYPE'} ${typeName} IS ${literal(
+            comment
+          )};`
+    const sql = `${typeSql} ${commentSql}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name, schema })
+  }
+
+  async update(
+    id: number,
+    {
+      schema,
+      name,
+      comment,
+      add_values = [],
+      rename_values = [],
+      add_attributes = [],
+      alter_attributes = [],
+      rename_attributes = [],
+      drop_attributes = [],
+      default_value,
+      is_nullable,
+      add_constraints = [],
+      drop_constraints = [],
+    }: PostgresTypeUpdate
+  ): Promise<PostgresMetaResult<PostgresType>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const isDomain = old!.domain_base_type_id !== null
+    const typeName = `${ident(old!.schema)}.${ident(old!.name)}`
+    const alter = `ALTER ${isDomain ? 'DOMAIN' : 'TYPE'} ${typeName}`
+    const valuesSql = [
+      ...add_values.map(({ value, before, after }) => {
+        let positionClause = ''
+        if (before !== undefined) {
+          positionClause = `BEFORE ${literal(before)}`
+        } else if (after !== undefined) {
+          positionClause = `AFTER ${literal(after)}`
+        }
+        return `${alter} ADD VALUE ${literal(value)} ${positionClause};`
+      }),
+      ...rename_values.map(
+        ({ from, to }) => `${alter} RENAME VALUE ${literal(from)} TO ${literal(to)};`
+      ),
+    ].join('\n')
+    const attributesSql = [
+      ...add_attributes.map(
+        (attribute) => `${alter} ADD ATTRIBUTE ${generateAttributeSql(attribute)};`
+      ),
+      ...alter_attributes.map(
+        ({ name, type, collation }) =>
+          `${alter} ALTER ATTRIBUTE ${ident(name)} TYPE ${type} ${
+            collation === undefined ? '' : `COLLATE ${ident(collation)}`
+          };`
+      ),
+      ...rename_attributes.map(
+        ({ from, to }) => `${alter} RENAME ATTRIBUTE ${ident(from)} TO ${ident(to)};`
+      ),
+      ...drop_attributes.map((name) => `${alter} DROP ATTRIBUTE ${ident(name)};`),
+    ].join('\n')
+    let defaultValueSql = ''
+    if (default_value === undefined) {
+      // skip
+    } else if (default_value === null) {
+      defaultValueSql = `${alter} DROP DEFAULT;`
+    } else {
+      defaultValueSql = `${alter} SET DEFAULT ${default_value};`
+    }
+    let isNullableSql = ''
+    if (is_nullable !== undefined) {
+      isNullableSql = is_nullable ? `${alter} DROP NOT NULL;` : `${alter} SET NOT NULL;`
+    }
+    const constraintsSql = [
+      ...drop_constraints.map((name) => `${alter} DROP CONSTRAINT ${ident(name)};`),
+      ...add_constraints.map((constraint) => `${alter} ADD ${generateConstraintSql(constraint)};`),
+    ].join('\n')
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON ${isDomain ? 'DOMAIN' : 'TYPE'} ${typeName} IS ${literal(comment)};`
+    const schemaSql = schema === undefined ? '' : `${alter} SET SCHEMA ${ident(schema)};`
+    let nameSql = ''
+    if (name !== undefined && name !== old!.name) {
+      const currentSchema = schema === undefined ? old!.schema : schema
+      nameSql = `ALTER ${isDomain ? 'DOMAIN' : 'TYPE'} ${ident(currentSchema)}.${ident(
+        old!.name
+      )} RENAME TO ${ident(name)};`
+    }
+    // nameSql must be last, right below schemaSql
+    const sql = `
+  ${valuesSql}
+  ${attributesSql}
+  ${defaultValueSql}
+  ${isNullableSql}
+  ${constraintsSql}
+  ${commentSql}
+  ${schemaSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(id: number, { cascade = false } = {}): Promise<PostgresMetaResult<PostgresType>> {
+    const { data: type, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP ${type!.domain_base_type_id !== null ? 'DOMAIN' : 'TYPE'} ${ident(
+      type!.schema
+    )}.${ident(type!.name)} ${cascade ? 'CASCADE' : 'RESTRICT'};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: type!, error: null }
+  }
+
+  /**
+   * Lists the columns, functions and domains that use a type, or an array of
+   * it, i.e. what a `remove` with `cascade` would also drop or change.
+   */
+  async dependents(id: number): Promise<PostgresMetaResult<PostgresTypeDependents>> {
+    const { error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `
+with type_ids as (
+  select oid from pg_type where oid = ${literal(id)}
+  union
+  select typarray from pg_type where oid = ${literal(id)} and typarray <> 0
+)
+select
+  coalesce(
+    (
+      select
+        jsonb_agg(
+          jsonb_build_object(
+            'table_id', c.oid::int8, 'schema', n.nspname, 'table', c.relname, 'name', a.attname
+          )
+          order by n.nspname, c.relname, a.attnum
+        )
+      from
+        pg_attribute a
+        join pg_class c on c.oid = a.attrelid
+        join pg_namespace n on n.oid = c.relnamespace
+      where
+        a.atttypid in (select oid from type_ids)
+        and a.attnum > 0
+        and not a.attisdropped
+        and c.relkind in ('r', 'p', 'v', 'm', 'f')
+    ),
+    '[]'
+  ) as columns,
+  coalesce(
+    (
+      select
+        jsonb_agg(
+          jsonb_build_object(
+            'id', p.oid::int8,
+            'schema', n.nspname,
+            'name', p.proname,
+            'identity_argument_types', pg_get_function_identity_arguments(p.oid)
+          )
+          order by n.nspname, p.proname
+        )
+      from
+        pg_proc p
+        join pg_namespace n on n.oid = p.pronamespace
+      where
+        p.prorettype in (select oid from type_ids)
+        or p.proargtypes::oid[] && array(select oid from type_ids)
+        or p.proallargtypes && array(select oid from type_ids)
+    ),
+    '[]'
+  ) as functions,
+  coalesce(
+    (
+      select
+        jsonb_agg(
+          jsonb_build_object('id', d.oid::int8, 'schema', n.nspname, 'name', d.typname)
+          order by n.nspname, d.typname
+        )
+      from
+        pg_type d
+        join pg_namespace n on n.oid = d.typnamespace
+      where
+        d.typtype = 'd'
+        and d.typbasetype in (select oid from type_ids)
+    ),
+    '[]'
+  ) as domains
+`
+    {
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+      return { data: data[0], error }
+    }
+  }
 }
+
+const generateAttributeSql = ({
+  name,
+  type,
+  collation,
+}: {
+  name: string
+  type: string
+  collation?: string
+}) => `${ident(name)} ${type} ${collation === undefined ? '' : `COLLATE ${ident(collation)}`}`
+
+const generateConstraintSql = ({ name, check }: { name?: string; check: string }) =>
+  `${name === undefined ? '' : `CONSTRAINT ${ident(name)}`} CHECK (${check})`
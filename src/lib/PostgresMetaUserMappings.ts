@@ -0,0 +1,141 @@
+import { ident, literal } from 'pg-format'
+import { generateAlterOptionsSql, generateOptionsSql } from './helpers.js'
+import { userMappingsSql } from './sql/index.js'
+import {
+  PostgresMetaResult,
+  PostgresUserMapping,
+  PostgresUserMappingCreate,
+  PostgresUserMappingUpdate,
+} from './types.js'
+
+export default class PostgresMetaUserMappings {
+  query: (sql: string) => Promise<PostgresMetaResult<any>>
+
+  constructor(query: (sql: string) => Promise<PostgresMetaResult<any>>) {
+    this.query = query
+  }
+
+  async list({
+    serverId,
+    limit,
+    offset,
+  }: {
+    serverId?: number
+    limit?: number
+    offset?: number
+  } = {}): Promise<PostgresMetaResult<PostgresUserMapping[]>> {
+    let sql = userMappingsSql
+    if (serverId) {
+      sql = `${sql} WHERE um.srvid = ${literal(serverId)}`
+    }
+    if (limit) {
+      sql = `${sql} LIMIT ${limit}`
+    }
+    if (offset) {
+      sql = `${sql} OFFSET ${offset}`
+    }
+    return await this.query(sql)
+  }
+
+  async retrieve({ id }: { id: number }): Promise<PostgresMetaResult<PostgresUserMapping>>
+  async retrieve({
+    server,
+    user,
+  }: {
+    server: string
+    user: string
+  }): Promise<PostgresMetaResult<PostgresUserMapping>>
+  async retrieve({
+    id,
+    server,
+    user,
+  }: {
+    id?: number
+    server?: string
+    user?: string
+  }): Promise<PostgresMetaResult<PostgresUserMapping>> {
+    if (id) {
+      const sql = `${userMappingsSql} WHERE um.umid = ${literal(id)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return { data: null, error: { message: `Cannot find a user mapping with ID ${id}` } }
+      } else {
+        return { data: data[0], error }
+      }
+    } else if (server && user) {
+      const sql = `${userMappingsSql} WHERE um.srvname = ${literal(
+        server
+      )} AND um.usename = ${literal(user)};`
+      const { data, error } = await this.query(sql)
+      if (error) {
+        return { data, error }
+      } else if (data.length === 0) {
+        return {
+          data: null,
+          error: { message: `Cannot find a user mapping for ${user} on server ${server}` },
+        }
+      } else {
+        return { data: data[0], error }
+      }
+    } else {
+      return { data: null, error: { message: 'Invalid parameters on user mapping retrieve' } }
+    }
+  }
+
+  async create({
+    server,
+    user,
+    options,
+  }: PostgresUserMappingCreate): Promise<PostgresMetaResult<PostgresUserMapping>> {
+    const sql = `CREATE USER MAPPING FOR ${userSql(user)} SERVER ${ident(
+      server
+    )} ${generateOptionsSql(options)};`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ server, user })
+  }
+
+  async update(
+    id: number,
+    { options }: PostgresUserMappingUpdate
+  ): Promise<PostgresMetaResult<PostgresUserMapping>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const optionsClause = generateAlterOptionsSql(old!.options, options)
+    if (optionsClause !== '') {
+      const sql = `ALTER USER MAPPING FOR ${userSql(old!.user)} SERVER ${ident(
+        old!.server
+      )} ${optionsClause};`
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(id: number): Promise<PostgresMetaResult<PostgresUserMapping>> {
+    const { data: mapping, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP USER MAPPING FOR ${userSql(mapping!.user)} SERVER ${ident(mapping!.server)};`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: mapping!, error: null }
+  }
+}
+
+// `public` is a keyword here rather than a role name.
+const userSql = (user: string) => (user === 'public' ? 'PUBLIC' : ident(user))
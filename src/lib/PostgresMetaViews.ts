@@ -1,8 +1,13 @@
-import { literal } from 'pg-format'
+import { ident, literal } from 'pg-format'
 import { DEFAULT_SYSTEM_SCHEMAS } from './constants.js'
 import { coalesceRowsToArray, filterByList } from './helpers.js'
 import { columnsSql, viewsSql } from './sql/index.js'
-import { PostgresMetaResult, PostgresView } from './types.js'
+import {
+  PostgresMetaResult,
+  PostgresView,
+  PostgresViewCreate,
+  PostgresViewUpdate,
+} from './types.js'
 
 export default class PostgresMetaViews {
   query: (sql: string) => Promise<PostgresMetaResult<any>>
@@ -108,6 +113,138 @@ export default class PostgresMetaViews {
       return { data: null, error: { message: 'Invalid parameters on view retrieve' } }
     }
   }
+
+  async create({
+    schema = 'public',
+    name,
+    query,
+    security_invoker,
+    security_barrier,
+    check_option,
+    comment,
+  }: PostgresViewCreate): Promise<PostgresMetaResult<PostgresView>> {
+    const viewSql = `CREATE VIEW ${ident(schema)}.${ident(name)}${generateViewOptionsSql({
+      security_invoker,
+      security_barrier,
+      check_option,
+    })} AS ${query};`
+    const commentSql =
+      comment === undefined
+        ? ''
+        : `COMMENT ON VIEW ${ident(schema)}.${ident(name)} IS ${literal(comment)};`
+    const sql = `${viewSql} ${commentSql}`
+    const { error } = await this.query(sql)
+    if (error) {
+      return { data: null, error }
+    }
+    return await this.retrieve({ name, schema })
+  }
+
+  async update(
+    id: number,
+    {
+      schema,
+      name,
+      query,
+      security_invoker,
+      security_barrier,
+      check_option,
+      comment,
+    }: PostgresViewUpdate
+  ): Promise<PostgresMetaResult<PostgresView>> {
+    const { data: old, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+
+    const view = `${ident(old!.schema)}.${ident(old!.name)}`
+    let definitionSql = ''
+    let optionsSql = ''
+    if (query !== undefined) {
+      // CREATE OR REPLACE VIEW replaces all options, so carry over the ones not being changed.
+      definitionSql = `CREATE OR REPLACE VIEW ${view}${generateViewOptionsSql({
+        security_invoker: security_invoker ?? (old!.security_invoker || undefined),
+        security_barrier: security_barrier ?? (old!.security_barrier || undefined),
+        check_option: check_option === undefined ? old!.check_option : check_option,
+      })} AS ${query};`
+    } else {
+      const setOptions = generateViewOptions({ security_invoker, security_barrier, check_option })
+      if (setOptions.length > 0) {
+        optionsSql += `ALTER VIEW ${view} SET (${setOptions.join(', ')});`
+      }
+      if (check_option === null) {
+        optionsSql += `ALTER VIEW ${view} RESET (check_option);`
+      }
+    }
+    const commentSql =
+      comment === undefined ? '' : `COMMENT ON VIEW ${view} IS ${literal(comment)};`
+    const schemaSql = schema === undefined ? '' : `ALTER VIEW ${view} SET SCHEMA ${ident(schema)};`
+    let nameSql = ''
+    if (name !== undefined && name !== old!.name) {
+      const currentSchema = schema === undefined ? old!.schema : schema
+      nameSql = `ALTER VIEW ${ident(currentSchema)}.${ident(old!.name)} RENAME TO ${ident(name)};`
+    }
+    // nameSql must be last, right below schemaSql
+    const sql = `
+  ${definitionSql}
+  ${optionsSql}
+  ${commentSql}
+  ${schemaSql}
+  ${nameSql}`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return await this.retrieve({ id })
+  }
+
+  async remove(id: number, { cascade = false } = {}): Promise<PostgresMetaResult<PostgresView>> {
+    const { data: view, error } = await this.retrieve({ id })
+    if (error) {
+      return { data: null, error }
+    }
+    const sql = `DROP VIEW ${ident(view!.schema)}.${ident(view!.name)} ${
+      cascade ? 'CASCADE' : 'RESTRICT'
+    };`
+    {
+      const { error } = await this.query(sql)
+      if (error) {
+        return { data: null, error }
+      }
+    }
+    return { data: view!, error: null }
+  }
+}
+
+// Options left undefined are omitted, so that e.g. `security_invoker` isn't
+// mentioned on Postgres versions that don't support it.
+const generateViewOptions = ({
+  security_invoker,
+  security_barrier,
+  check_option,
+}: {
+  security_invoker?: boolean
+  security_barrier?: boolean
+  check_option?: 'LOCAL' | 'CASCADED' | null
+}) => {
+  const options: string[] = []
+  if (security_invoker !== undefined) {
+    options.push(`security_invoker = ${security_invoker}`)
+  }
+  if (security_barrier !== undefined) {
+    options.push(`security_barrier = ${security_barrier}`)
+  }
+  if (check_option) {
+    options.push(`check_option = ${check_option.toLowerCase()}`)
+  }
+  return options
+}
+
+const generateViewOptionsSql = (options: Parameters<typeof generateViewOptions>[0]) => {
+  const viewOptions = generateViewOptions(options)
+  return viewOptions.length === 0 ? '' : ` WITH (${viewOptions.join(', ')})`
 }
 
 const generateEnrichedViewsSql = ({ includeColumns }: { includeColumns: boolean }) => `
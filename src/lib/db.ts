@@ -1,28 +1,392 @@
 import pg, { PoolConfig } from 'pg'
 import { DatabaseError } from 'pg-protocol'
 import { parse as parseArray } from 'postgres-array'
-import { PostgresMetaResult } from './types.js'
+import {
+  PostgresMetaErr,
+  PostgresMetaResult,
+  PostgresPoolStats,
+  PostgresQueryOptions,
+  PostgresQueryParameter,
+  PostgresQueryResult,
+  PostgresQueryStream,
+  PostgresQueryStreamOptions,
+  PostgresTypeParsing,
+} from './types.js'
 
-pg.types.setTypeParser(pg.types.builtins.INT8, (x) => {
+const identity = (x: string) => x
+const arrayOf = (parse: (value: string) => unknown) => (x: string) => parseArray(x, parse)
+
+const parseInt8 = (x: string) => {
   const asNumber = Number(x)
   if (Number.isSafeInteger(asNumber)) {
     return asNumber
   } else {
     return x
   }
+}
+const tag = (type: string) => (value: string) => ({ type, value })
+
+// Dates and times are kept as strings, so that they're passed through as is,
+// e.g. without time zone conversion. Arrays are parsed like their elements.
+const DEFAULT_TYPE_PARSERS: Record<number, (value: string) => unknown> = {
+  [pg.types.builtins.INT8]: parseInt8,
+  1016: arrayOf(parseInt8), // _int8
+  1231: parseArray, // _numeric
+  [pg.types.builtins.DATE]: identity,
+  [pg.types.builtins.INTERVAL]: identity,
+  [pg.types.builtins.TIMESTAMP]: identity,
+  [pg.types.builtins.TIMESTAMPTZ]: identity,
+  1115: parseArray, // _timestamp
+  1182: parseArray, // _date
+  1185: parseArray, // _timestamptz
+  600: identity, // point
+  1017: identity, // _point
+}
+
+const TYPE_PARSERS: Record<PostgresTypeParsing, Record<number, (value: string) => unknown>> = {
+  default: DEFAULT_TYPE_PARSERS,
+  string: {
+    ...DEFAULT_TYPE_PARSERS,
+    [pg.types.builtins.INT8]: identity,
+    [pg.types.builtins.NUMERIC]: identity,
+    1016: parseArray, // _int8
+    1231: parseArray, // _numeric
+  },
+  tagged: {
+    ...DEFAULT_TYPE_PARSERS,
+    [pg.types.builtins.INT8]: tag('int8'),
+    [pg.types.builtins.NUMERIC]: tag('numeric'),
+    1016: arrayOf(tag('int8')), // _int8
+    1231: arrayOf(tag('numeric')), // _numeric
+  },
+}
+
+// Passed to node-postgres per pool or per query instead of changing its global
+// parsers, which would affect anything else using it in the same process.
+const getTypes = (typeParsing: PostgresTypeParsing): pg.CustomTypesConfig => ({
+  getTypeParser: ((oid: number, format: 'text' | 'binary' = 'text') =>
+    format === 'text'
+      ? TYPE_PARSERS[typeParsing][oid] ?? pg.types.getTypeParser(oid, 'text')
+      : pg.types.getTypeParser(oid, 'binary')) as pg.CustomTypesConfig['getTypeParser'],
 })
-pg.types.setTypeParser(pg.types.builtins.DATE, (x) => x)
-pg.types.setTypeParser(pg.types.builtins.INTERVAL, (x) => x)
-pg.types.setTypeParser(pg.types.builtins.TIMESTAMP, (x) => x)
-pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, (x) => x)
-pg.types.setTypeParser(1115, parseArray) // _timestamp
-pg.types.setTypeParser(1182, parseArray) // _date
-pg.types.setTypeParser(1185, parseArray) // _timestamptz
-pg.types.setTypeParser(600, (x) => x) // point
-pg.types.setTypeParser(1017, (x) => x) // _point
+
+// Turns type-hinted parameters into values node-postgres sends as-is, e.g.
+// JSON for json/jsonb and strings for int8/numeric so that no precision is lost.
+const prepareParameters = (parameters: PostgresQueryParameter[]): unknown[] =>
+  parameters.map((parameter) => {
+    if (parameter === null || typeof parameter !== 'object' || Array.isArray(parameter)) {
+      return parameter
+    }
+    const { value, type } = parameter
+    if (value === null || value === undefined) {
+      return null
+    }
+    switch (type.toLowerCase()) {
+      case 'json':
+      case 'jsonb':
+        return JSON.stringify(value)
+      case 'int8':
+      case 'bigint':
+      case 'numeric':
+      case 'decimal':
+        return String(value)
+      default:
+        return value
+    }
+  })
+
+// Type hints are also sent as the parameters' types, the same as casting them
+// in the statement. node-postgres sends `types` along with the statement when
+// it's an array of type OIDs, and reads the type parsers off it either way.
+const getParameterTypes = async (
+  queryable: pg.Pool | pg.PoolClient,
+  parameters: PostgresQueryParameter[],
+  typeParsing: PostgresTypeParsing
+): Promise<pg.CustomTypesConfig> => {
+  const types = getTypes(typeParsing)
+  const hints = parameters.map((parameter) =>
+    parameter !== null && typeof parameter === 'object' && !Array.isArray(parameter)
+      ? parameter.type
+      : null
+  )
+  if (hints.every((x) => x === null)) {
+    return types
+  }
+  const { rows } = await queryable.query(
+    'select to_regtype(x.type)::oid::text as oid from unnest($1::text[]) with ordinality as x(type, i) order by x.i',
+    [hints]
+  )
+  const unknownType = hints.find((x, i) => x !== null && rows[i].oid === null)
+  if (unknownType !== undefined) {
+    throw new Error(`type "${unknownType}" does not exist`)
+  }
+  // Parameters without a hint are left for Postgres to infer.
+  return Object.assign(
+    rows.map(({ oid }) => Number(oid ?? 0)),
+    types
+  )
+}
+
+export type Query = (
+  sql: string,
+  parameters?: PostgresQueryParameter[],
+  options?: PostgresQueryOptions
+) => Promise<PostgresMetaResult<any>>
+
+// Describes the columns of each result, with type names from pg_type.
+const describeFields = async (
+  queryable: pg.Pool | pg.PoolClient,
+  fieldsList: pg.FieldDef[][]
+): Promise<PostgresQueryResult['fields'][]> => {
+  const typeIds = [...new Set(fieldsList.flatMap((fields) => fields.map((f) => f.dataTypeID)))]
+  const typeNames = new Map<number, string>()
+  if (typeIds.length > 0) {
+    const { rows } = await queryable.query(
+      'select oid::int8 as id, format_type(oid, null) as name from pg_type where oid = any($1)',
+      [typeIds]
+    )
+    rows.forEach(({ id, name }) => typeNames.set(id, name))
+  }
+  return fieldsList.map((fields) =>
+    fields.map(({ name, dataTypeID }) => ({
+      name,
+      type_id: dataTypeID,
+      type: typeNames.get(dataTypeID) ?? null,
+    }))
+  )
+}
+
+const toResultSets = async (
+  queryable: pg.Pool | pg.PoolClient,
+  results: pg.QueryResult[]
+): Promise<PostgresQueryResult[]> => {
+  const fieldsList = await describeFields(
+    queryable,
+    results.map(({ fields }) => fields)
+  )
+  return results.map(({ command, rowCount, rows }, i) => ({
+    command,
+    row_count: rowCount,
+    fields: fieldsList[i],
+    rows,
+  }))
+}
+
+// Clients may go back to a pool shared by other callers, so undo whatever
+// session state the queries left behind, e.g. `SET ROLE`. A client that can't
+// be reset, e.g. because of an unterminated transaction, is closed instead.
+const resetAndRelease = async (client: pg.PoolClient) => {
+  try {
+    await client.query('DISCARD ALL')
+    client.release()
+  } catch (error: any) {
+    client.release(error)
+  }
+}
+
+// Statement timeouts, cancellation and transactions that get rolled back apply
+// to a whole backend, so queries using them get a client of their own.
+// `release` undoes the setup once the query is done.
+const checkoutClient = async (
+  queryable: pg.Pool | pg.PoolClient,
+  {
+    statementTimeout,
+    readOnly = false,
+    rollback: rollbackOption = false,
+  }: { statementTimeout?: number; readOnly?: boolean; rollback?: boolean }
+): Promise<{ client: pg.PoolClient; pid: number; release: () => Promise<void> }> => {
+  // Outside a transaction block, SET TRANSACTION READ ONLY does nothing.
+  const rollback = rollbackOption || readOnly
+  const client = queryable instanceof pg.Pool ? await queryable.connect() : queryable
+  try {
+    const {
+      rows: [{ pid, statement_timeout }],
+    } = await client.query(
+      "select pg_backend_pid() as pid, current_setting('statement_timeout') as statement_timeout"
+    )
+    if (statementTimeout !== undefined) {
+      await client.query("select set_config('statement_timeout', $1, false)", [
+        String(statementTimeout),
+      ])
+    }
+    if (rollback) {
+      // Within transaction(), only roll back what this query did.
+      await client.query(client !== queryable ? 'BEGIN;' : 'SAVEPOINT pg_meta_rollback;')
+    }
+    if (readOnly) {
+      // Taking a snapshot right away keeps the query from making the
+      // transaction read-write again, e.g. with `SET transaction_read_only`.
+      await client.query('SET TRANSACTION READ ONLY; SELECT 1;')
+    }
+    return {
+      client,
+      pid,
+      release: async () => {
+        if (rollback) {
+          await client
+            .query(client !== queryable ? 'ROLLBACK;' : 'ROLLBACK TO SAVEPOINT pg_meta_rollback;')
+            .catch(() => {})
+        }
+        if (client !== queryable) {
+          await resetAndRelease(client)
+          return
+        }
+        if (statementTimeout !== undefined) {
+          // Fails in an aborted transaction, where the setting gets rolled back anyway.
+          await client
+            .query("select set_config('statement_timeout', $1, false)", [statement_timeout])
+            .catch(() => {})
+        }
+      },
+    }
+  } catch (error) {
+    if (client !== queryable) await resetAndRelease(client)
+    throw error
+  }
+}
+
+const toPostgresMetaError = (error: any, sql: string): PostgresMetaErr['error'] => {
+  if (error instanceof DatabaseError) {
+    // Roughly based on:
+    // - https://github.com/postgres/postgres/blob/fc4089f3c65a5f1b413a3299ba02b66a8e5e37d0/src/interfaces/libpq/fe-protocol3.c#L1018
+    // - https://github.com/brianc/node-postgres/blob/b1a8947738ce0af004cb926f79829bb2abc64aa6/packages/pg/lib/native/query.js#L33
+    let formattedError = ''
+    {
+      if (error.severity) {
+        formattedError += `${error.severity}:  `
+      }
+      if (error.code) {
+        formattedError += `${error.code}: `
+      }
+      if (error.message) {
+        formattedError += error.message
+      }
+      formattedError += '\n'
+      if (error.position) {
+        // error.position is 1-based
+        const position = Number(error.position) - 1
+
+        let line = ''
+        let lineNumber = 0
+        let lineOffset = 0
+
+        const lines = sql.split('\n')
+        let currentOffset = 0
+        for (let i = 0; i < lines.length; i++) {
+          if (currentOffset + lines[i].length > position) {
+            line = lines[i]
+            lineNumber = i + 1 // 1-based
+            lineOffset = position - currentOffset
+            break
+          }
+          currentOffset += lines[i].length + 1 // 1 extra offset for newline
+        }
+        formattedError += `LINE ${lineNumber}: ${line}
+${' '.repeat(5 + lineNumber.toString().length + 2 + lineOffset)}^
+`
+      }
+      if (error.detail) {
+        formattedError += `DETAIL:  ${error.detail}
+`
+      }
+      if (error.hint) {
+        formattedError += `HINT:  ${error.hint}
+`
+      }
+      if (error.internalQuery) {
+        formattedError += `QUERY:  ${error.internalQuery}
+`
+      }
+      if (error.where) {
+        formattedError += `CONTEXT:  ${error.where}
+`
+      }
+    }
+
+    return {
+      ...error,
+      // error.message is non-enumerable
+      message: error.message,
+      formattedError,
+    }
+  }
+
+  return { message: error.message }
+}
+
+const runQuery = async (
+  queryable: pg.Pool | pg.PoolClient,
+  sql: string,
+  parameters?: PostgresQueryParameter[],
+  {
+    resultSets = false,
+    statementTimeout,
+    signal,
+    readOnly,
+    rollback,
+    typeParsing,
+  }: PostgresQueryOptions = {},
+  cancelBackend?: (pid: number) => Promise<void>
+): Promise<PostgresMetaResult<any>> => {
+  const cancelled = {
+    data: null,
+    error: { code: '57014', message: 'canceling statement due to user request' },
+  }
+  if (signal?.aborted) {
+    return cancelled
+  }
+
+  let release = async () => {}
+  let onAbort = () => {}
+  try {
+    let client = queryable
+    if (statementTimeout !== undefined || signal !== undefined || readOnly || rollback) {
+      const checkedOut = await checkoutClient(queryable, { statementTimeout, readOnly, rollback })
+      client = checkedOut.client
+      release = checkedOut.release
+      onAbort = () => {
+        cancelBackend?.(checkedOut.pid).catch(() => {})
+      }
+      if (signal?.aborted) {
+        return cancelled
+      }
+      signal?.addEventListener('abort', onAbort)
+    }
+
+    let res = await client.query({
+      text: sql,
+      values: parameters && prepareParameters(parameters),
+      // node-postgres only applies the client's types to the first result of
+      // a multi-statement query, so they're always passed per query.
+      types:
+        parameters === undefined
+          ? getTypes(typeParsing ?? 'default')
+          : await getParameterTypes(client, parameters, typeParsing ?? 'default'),
+    })
+    if (resultSets) {
+      return { data: await toResultSets(client, Array.isArray(res) ? res : [res]), error: null }
+    }
+    if (Array.isArray(res)) {
+      res = res.reverse().find((x) => x.rows.length !== 0) ?? { rows: [] }
+    }
+    return { data: res.rows, error: null }
+  } catch (error: any) {
+    return { data: null, error: toPostgresMetaError(error, sql) }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+    await release()
+  }
+}
 
 export const init: (config: PoolConfig) => {
-  query: (sql: string) => Promise<PostgresMetaResult<any>>
+  query: Query
+  transaction: <T>(fn: (query: Query) => Promise<T>) => Promise<PostgresMetaResult<T>>
+  stream: (
+    sql: string,
+    parameters?: PostgresQueryParameter[],
+    options?: PostgresQueryStreamOptions
+  ) => Promise<PostgresMetaResult<PostgresQueryStream>>
+  poolStats: () => PostgresPoolStats
   end: () => Promise<void>
 } = (config) => {
   // node-postgres ignores config.ssl if any of sslmode, sslca, sslkey, sslcert,
@@ -53,101 +417,205 @@ export const init: (config: PoolConfig) => {
     }
   }
 
+  // Goes through a connection of its own: the pool may not have any client
+  // left to spare, e.g. with `max: 1`.
+  const cancelBackend = async (pid: number) => {
+    const client = new pg.Client(config)
+    await client.connect()
+    try {
+      await client.query('select pg_cancel_backend($1)', [pid])
+    } finally {
+      await client.end()
+    }
+  }
+
   // NOTE: Race condition could happen here: one async task may be doing
   // `pool.end()` which invalidates the pool and subsequently all existing
   // handles to `query`. Normally you might only deal with one DB so you don't
   // need to call `pool.end()`, but since the server needs this, we make a
   // compromise: if we run `query` after `pool.end()` is called (i.e. pool is
   // `null`), we temporarily create a pool and close it right after.
+  config.types ??= getTypes('default')
   let pool: pg.Pool | null = new pg.Pool(config)
+  // Idle clients can get disconnected, e.g. when the server restarts. The pool
+  // drops them on its own; without a listener the error would be thrown.
+  pool.on('error', () => {})
   return {
-    async query(sql) {
+    async query(sql, parameters, options) {
+      if (!pool) {
+        const pool = new pg.Pool(config)
+        const res = await runQuery(pool, sql, parameters, options, cancelBackend)
+        await pool.end()
+        return res
+      }
+      return await runQuery(pool, sql, parameters, options, cancelBackend)
+    },
+
+    // Runs `fn` on a single client inside BEGIN/COMMIT. The transaction is
+    // rolled back if `fn` throws or if any query made through it fails, in
+    // which case the first error is returned.
+    async transaction(fn) {
+      const _pool = pool ?? new pg.Pool(config)
+      let client: pg.PoolClient
       try {
-        if (!pool) {
-          const pool = new pg.Pool(config)
-          let res = await pool.query(sql)
-          if (Array.isArray(res)) {
-            res = res.reverse().find((x) => x.rows.length !== 0) ?? { rows: [] }
-          }
-          await pool.end()
-          return { data: res.rows, error: null }
+        client = await _pool.connect()
+      } catch (error: any) {
+        if (!pool) await _pool.end()
+        return { data: null, error: { message: error.message } }
+      }
+
+      let failure: PostgresMetaErr['error'] | null = null
+      const query: Query = async (sql, parameters, options) => {
+        // The transaction is already aborted, any further query would fail
+        // with "current transaction is aborted".
+        if (failure) {
+          return { data: null, error: failure }
         }
+        const res = await runQuery(client, sql, parameters, options, cancelBackend)
+        if (res.error) {
+          failure = res.error
+        }
+        return res
+      }
 
-        let res = await pool.query(sql)
-        if (Array.isArray(res)) {
-          res = res.reverse().find((x) => x.rows.length !== 0) ?? { rows: [] }
+      try {
+        const { error } = await runQuery(client, 'BEGIN;')
+        if (error) {
+          return { data: null, error }
         }
-        return { data: res.rows, error: null }
+
+        let data
+        try {
+          data = await fn(query)
+        } catch (error: any) {
+          await runQuery(client, 'ROLLBACK;')
+          return { data: null, error: failure ?? { message: error.message } }
+        }
+        if (failure) {
+          await runQuery(client, 'ROLLBACK;')
+          return { data: null, error: failure }
+        }
+
+        {
+          const { error } = await runQuery(client, 'COMMIT;')
+          if (error) {
+            return { data: null, error }
+          }
+        }
+        return { data, error: null }
+      } finally {
+        await resetAndRelease(client)
+        if (!pool) await _pool.end()
+      }
+    },
+
+    // Runs a single SELECT through a server-side cursor on a client of its own,
+    // so that only `batchSize` rows are held in memory at a time. The query
+    // errors out before any rows are handed over; the client is released once
+    // `rows` is exhausted or returned early.
+    async stream(
+      sql,
+      parameters,
+      { batchSize = 1000, readOnly = false, typeParsing, statementTimeout, signal } = {}
+    ) {
+      const cancelled = {
+        data: null,
+        error: { code: '57014', message: 'canceling statement due to user request' },
+      }
+      if (signal?.aborted) {
+        return cancelled
+      }
+      // `end()` may be called while rows are still being read.
+      const temporary = !pool
+      const _pool = pool ?? new pg.Pool(config)
+      let client: pg.PoolClient
+      try {
+        client = await _pool.connect()
       } catch (error: any) {
-        if (error instanceof DatabaseError) {
-          // Roughly based on:
-          // - https://github.com/postgres/postgres/blob/fc4089f3c65a5f1b413a3299ba02b66a8e5e37d0/src/interfaces/libpq/fe-protocol3.c#L1018
-          // - https://github.com/brianc/node-postgres/blob/b1a8947738ce0af004cb926f79829bb2abc64aa6/packages/pg/lib/native/query.js#L33
-          let formattedError = ''
-          {
-            if (error.severity) {
-              formattedError += `${error.severity}:  `
-            }
-            if (error.code) {
-              formattedError += `${error.code}: `
-            }
-            if (error.message) {
-              formattedError += error.message
-            }
-            formattedError += '\n'
-            if (error.position) {
-              // error.position is 1-based
-              const position = Number(error.position) - 1
-
-              let line = ''
-              let lineNumber = 0
-              let lineOffset = 0
-
-              const lines = sql.split('\n')
-              let currentOffset = 0
-              for (let i = 0; i < lines.length; i++) {
-                if (currentOffset + lines[i].length > position) {
-                  line = lines[i]
-                  lineNumber = i + 1 // 1-based
-                  lineOffset = position - currentOffset
-                  break
-                }
-                currentOffset += lines[i].length + 1 // 1 extra offset for newline
-              }
-              formattedError += `LINE ${lineNumber}: ${line}
-${' '.repeat(5 + lineNumber.toString().length + 2 + lineOffset)}^
-`
-            }
-            if (error.detail) {
-              formattedError += `DETAIL:  ${error.detail}
-`
-            }
-            if (error.hint) {
-              formattedError += `HINT:  ${error.hint}
-`
-            }
-            if (error.internalQuery) {
-              formattedError += `QUERY:  ${error.internalQuery}
-`
-            }
-            if (error.where) {
-              formattedError += `CONTEXT:  ${error.where}
-`
-            }
+        if (temporary) await _pool.end()
+        return { data: null, error: { message: error.message } }
+      }
+      let onAbort = () => {}
+      const close = async (commit: boolean) => {
+        signal?.removeEventListener('abort', onAbort)
+        await client.query(commit ? 'COMMIT;' : 'ROLLBACK;').catch(() => {})
+        await resetAndRelease(client)
+        if (temporary) await _pool.end()
+      }
+
+      const declareSql = `DECLARE pg_meta_cursor NO SCROLL CURSOR FOR ${sql}`
+      const fetch = () =>
+        client.query({
+          text: `FETCH ${batchSize} FROM pg_meta_cursor`,
+          rowMode: 'array',
+          types: getTypes(typeParsing ?? 'default'),
+        })
+      let first: pg.QueryArrayResult
+      let fields: PostgresQueryResult['fields']
+      try {
+        await client.query('BEGIN;')
+        // Unlike in checkoutClient(), these only last as long as the
+        // transaction, and apply to every FETCH as well.
+        if (statementTimeout !== undefined) {
+          await client.query("select set_config('statement_timeout', $1, true)", [
+            String(statementTimeout),
+          ])
+        }
+        if (signal !== undefined) {
+          const {
+            rows: [{ pid }],
+          } = await client.query('select pg_backend_pid() as pid')
+          onAbort = () => {
+            cancelBackend(pid).catch(() => {})
+          }
+          signal.addEventListener('abort', onAbort)
+          if (signal.aborted) {
+            await close(false)
+            return cancelled
           }
+        }
+        if (readOnly) {
+          // See checkoutClient().
+          await client.query('SET TRANSACTION READ ONLY; SELECT 1;')
+        }
+        if (parameters === undefined) {
+          await client.query(declareSql)
+        } else {
+          await client.query({
+            text: declareSql,
+            values: prepareParameters(parameters),
+            types: await getParameterTypes(client, parameters, typeParsing ?? 'default'),
+          })
+        }
+        first = await fetch()
+        ;[fields] = await describeFields(client, [first.fields])
+      } catch (error: any) {
+        await close(false)
+        return { data: null, error: toPostgresMetaError(error, declareSql) }
+      }
 
-          return {
-            data: null,
-            error: {
-              ...error,
-              // error.message is non-enumerable
-              message: error.message,
-              formattedError,
-            },
+      async function* rows() {
+        let completed = false
+        try {
+          let res = first
+          while (res.rows.length > 0) {
+            yield res.rows
+            if (res.rows.length < batchSize) break
+            res = await fetch()
           }
+          completed = true
+        } finally {
+          await close(completed)
         }
+      }
+      return { data: { fields, rows: rows() }, error: null }
+    },
 
-        return { data: null, error: { message: error.message } }
+    poolStats() {
+      return {
+        total: pool?.totalCount ?? 0,
+        idle: pool?.idleCount ?? 0,
+        waiting: pool?.waitingCount ?? 0,
       }
     },
 
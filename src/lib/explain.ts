@@ -0,0 +1,153 @@
+import { Parse } from './Parser.js'
+import { Query } from './db.js'
+import {
+  PostgresExplain,
+  PostgresExplainNode,
+  PostgresExplainOptions,
+  PostgresMetaResult,
+} from './types.js'
+
+// Sequential scans on tables with more rows than this are flagged.
+const LARGE_TABLE_ROWS = 10000
+// Nodes whose actual rows are off from the estimate by more than this factor
+// are flagged.
+const MISESTIMATE_FACTOR = 10
+
+// A node as found in EXPLAIN (FORMAT JSON) output.
+type RawNode = { [key: string]: any; Plans?: RawNode[] }
+
+const relationOf = (node: RawNode): string | null => {
+  if (!node['Relation Name']) {
+    return null
+  }
+  return node['Schema'] ? `${node['Schema']}.${node['Relation Name']}` : node['Relation Name']
+}
+
+// Milliseconds spent in the node over all loops, including children.
+const actualTimeOf = (node: RawNode): number | null =>
+  node['Actual Total Time'] === undefined ? null : node['Actual Total Time'] * node['Actual Loops']
+
+const normalizeNode = (
+  node: RawNode,
+  executionTime: number | null,
+  tableRows: Map<string, number>
+): PostgresExplainNode => {
+  const { Plans: plans = [], ...details } = node
+  const relation = relationOf(node)
+  const estimatedRows: number = node['Plan Rows']
+  const actualRows: number | null = node['Actual Rows'] ?? null
+  const actualTime = actualTimeOf(node)
+
+  let timeShare: number | null = null
+  if (actualTime !== null && executionTime) {
+    const childrenTime = plans.reduce((acc, child) => acc + (actualTimeOf(child) ?? 0), 0)
+    timeShare = Math.max(actualTime - childrenTime, 0) / executionTime
+  }
+
+  const warnings: string[] = []
+  if (node['Node Type'] === 'Seq Scan' && relation !== null) {
+    const rows = tableRows.get(relation)
+    if (rows !== undefined && rows > LARGE_TABLE_ROWS) {
+      warnings.push(`Sequential scan on ${relation}, which has about ${rows} rows`)
+    }
+  }
+  if (actualRows !== null) {
+    const ratio = Math.max(actualRows, 1) / Math.max(estimatedRows, 1)
+    if (ratio > MISESTIMATE_FACTOR || ratio < 1 / MISESTIMATE_FACTOR) {
+      warnings.push(`Estimated ${estimatedRows} rows, got ${actualRows}`)
+    }
+  }
+  if (
+    node['Node Type'] === 'Sort' &&
+    (node['Sort Space Type'] === 'Disk' || node['Sort Method']?.startsWith('external'))
+  ) {
+    warnings.push(`Sort spilled to disk (${node['Sort Space Used']} kB)`)
+  }
+
+  return {
+    node_type: node['Node Type'],
+    relation,
+    estimated_rows: estimatedRows,
+    startup_cost: node['Startup Cost'],
+    total_cost: node['Total Cost'],
+    actual_rows: actualRows,
+    loops: node['Actual Loops'] ?? null,
+    actual_time: actualTime,
+    time_share: timeShare,
+    warnings,
+    details,
+    children: plans.map((child) => normalizeNode(child, executionTime, tableRows)),
+  }
+}
+
+/**
+ * Runs EXPLAIN (FORMAT JSON) on `sql` and turns the plan into a tree that
+ * doesn't need any knowledge of Postgres's output to be displayed, with
+ * warnings about common performance issues.
+ */
+export async function explain(
+  query: Query,
+  sql: string,
+  {
+    parameters,
+    analyze = false,
+    buffers = false,
+    settings = false,
+    readOnly = false,
+  }: PostgresExplainOptions = {}
+): Promise<PostgresMetaResult<PostgresExplain>> {
+  // Statements after the first would be run as they are, not explained.
+  // Syntax errors are left to Postgres, which refuses the whole query then.
+  const { data: statements } = Parse(sql)
+  if (statements !== null && (statements as unknown[]).length !== 1) {
+    return { data: null, error: { message: 'Only a single statement can be explained' } }
+  }
+
+  const options = ['FORMAT JSON', 'VERBOSE']
+  if (analyze) options.push('ANALYZE')
+  if (buffers) options.push('BUFFERS')
+  if (settings) options.push('SETTINGS')
+  const { data, error } = await query(`EXPLAIN (${options.join(', ')}) ${sql}`, parameters, {
+    // ANALYZE runs the statement, make sure nothing it does is kept. In
+    // read-only mode, the transaction is what makes it read-only.
+    rollback: analyze || readOnly,
+    readOnly,
+  })
+  if (error) {
+    return { data, error }
+  }
+  const [result] = data[0]['QUERY PLAN']
+
+  const seqScans: RawNode[] = []
+  const collectSeqScans = (node: RawNode) => {
+    if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) seqScans.push(node)
+    node.Plans?.forEach(collectSeqScans)
+  }
+  collectSeqScans(result.Plan)
+  const tableRows = new Map<string, number>()
+  if (seqScans.length > 0) {
+    const { data, error } = await query(
+      `
+select n.nspname || '.' || c.relname as name, c.reltuples::int8 as rows
+from pg_class c
+join pg_namespace n on n.oid = c.relnamespace
+where (n.nspname, c.relname) in (select * from unnest($1::text[], $2::text[]))
+`,
+      [seqScans.map((node) => node['Schema']), seqScans.map((node) => node['Relation Name'])]
+    )
+    if (error) {
+      return { data, error }
+    }
+    data.forEach(({ name, rows }: { name: string; rows: number }) => tableRows.set(name, rows))
+  }
+
+  return {
+    data: {
+      plan: normalizeNode(result.Plan, result['Execution Time'] ?? null, tableRows),
+      planning_time: result['Planning Time'] ?? null,
+      execution_time: result['Execution Time'] ?? null,
+      settings: result.Settings ?? null,
+    },
+    error: null,
+  }
+}
@@ -121,7 +121,10 @@ export async function getGeneratorMetadata(
       columns,
       relationships,
       functions: functions.filter(
-        ({ return_type }) => !['trigger', 'event_trigger'].includes(return_type)
+        // Procedures, aggregates and window functions can't be called through
+        // PostgREST's RPC, so only plain functions are typed.
+        ({ kind, return_type }) =>
+          kind === 'function' && !['trigger', 'event_trigger'].includes(return_type!)
       ),
       types,
     },
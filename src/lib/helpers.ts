@@ -1,4 +1,5 @@
-import { literal } from 'pg-format'
+import { ident, literal } from 'pg-format'
+import { PostgresColumnCreate, PostgresMetaResult } from './types.js'
 
 export const coalesceRowsToArray = (source: string, filter: string) => {
   return `
@@ -24,3 +25,170 @@ export const filterByList = (include?: string[], exclude?: string[], defaultExcl
   }
   return ''
 }
+
+export const generateOptionsSql = (options?: Record<string, string>) => {
+  if (options === undefined || Object.keys(options).length === 0) {
+    return ''
+  }
+  return `OPTIONS (${Object.entries(options)
+    .map(([key, value]) => `${ident(key)} ${literal(value)}`)
+    .join(', ')})`
+}
+
+// Options set to null are dropped, the rest are set if they already exist and
+// added otherwise.
+export const generateAlterOptionsSql = (
+  oldOptions: Record<string, string> | null,
+  options?: Record<string, string | null>
+) => {
+  if (options === undefined || Object.keys(options).length === 0) {
+    return ''
+  }
+  return `OPTIONS (${Object.entries(options)
+    .map(([key, value]) => {
+      if (value === null) {
+        return `DROP ${ident(key)}`
+      }
+      return `${oldOptions && key in oldOptions ? 'SET' : 'ADD'} ${ident(key)} ${literal(value)}`
+    })
+    .join(', ')})`
+}
+
+// A name that may be schema-qualified, e.g. `extensions.gin_trgm_ops`.
+export const generateQualifiedIdent = (name: string) =>
+  name
+    .split('.')
+    .map((x) => ident(x))
+    .join('.')
+
+// TODO: make this more robust - use type_id or type_schema + type_name instead
+// of just type.
+export const typeIdent = (type: string) => {
+  return type.endsWith('[]')
+    ? `${ident(type.slice(0, -2))}[]`
+    : type.includes('.')
+      ? type
+      : ident(type)
+}
+
+// The column's definition, as in CREATE TABLE or ALTER TABLE ... ADD COLUMN.
+export const generateColumnDefinitionSql = ({
+  name,
+  type,
+  default_value,
+  default_value_format = 'literal',
+  is_identity = false,
+  identity_generation = 'BY DEFAULT',
+  is_nullable,
+  is_primary_key = false,
+  is_unique = false,
+  generation_expression,
+  collation,
+  compression,
+  check,
+}: Omit<PostgresColumnCreate, 'table_id'>): PostgresMetaResult<string> => {
+  let defaultValueClause = ''
+  if (generation_expression !== undefined) {
+    if (is_identity || default_value !== undefined) {
+      return {
+        data: null,
+        error: { message: 'Generated columns cannot be identity or have a default value' },
+      }
+    }
+    defaultValueClause = `GENERATED ALWAYS AS (${generation_expression}) STORED`
+  } else if (is_identity) {
+    if (default_value !== undefined) {
+      return {
+        data: null,
+        error: { message: 'Columns cannot both be identity and have a default value' },
+      }
+    }
+    defaultValueClause = `GENERATED ${identity_generation} AS IDENTITY`
+  } else if (default_value === undefined) {
+    // skip
+  } else if (default_value_format === 'expression') {
+    defaultValueClause = `DEFAULT ${default_value}`
+  } else {
+    defaultValueClause = `DEFAULT ${literal(default_value)}`
+  }
+
+  let isNullableClause = ''
+  if (is_nullable !== undefined) {
+    isNullableClause = is_nullable ? 'NULL' : 'NOT NULL'
+  }
+  return {
+    data: `${ident(name)} ${typeIdent(type)}
+    ${compression === undefined ? '' : `COMPRESSION ${ident(compression)}`}
+    ${collation === undefined ? '' : `COLLATE ${ident(collation)}`}
+    ${defaultValueClause}
+    ${isNullableClause}
+    ${is_primary_key ? 'PRIMARY KEY' : ''}
+    ${is_unique ? 'UNIQUE' : ''}
+    ${check === undefined ? '' : `CHECK (${check})`}`,
+    error: null,
+  }
+}
+
+export const generateDeferrableSql = ({
+  is_deferrable,
+  is_deferred,
+}: {
+  is_deferrable?: boolean
+  is_deferred?: boolean
+}): string => {
+  let sql = ''
+  if (is_deferrable !== undefined) {
+    sql += is_deferrable ? 'DEFERRABLE' : 'NOT DEFERRABLE'
+  }
+  if (is_deferred !== undefined) {
+    sql += is_deferred ? ' INITIALLY DEFERRED' : ' INITIALLY IMMEDIATE'
+  }
+  return sql
+}
+
+// Postgres' default name for an object on a table, e.g. `<table>_<columns>_idx`:
+// the table and column names are shortened to fit the 63-byte identifier
+// limit, the longer one first.
+export const generateObjectName = (table: string, columns: string[], label: string) => {
+  const columnsName = columns.join('_')
+  const available = 63 - label.length - 1 - (columnsName === '' ? 0 : 1)
+  let tableLength = table.length
+  let columnsLength = columnsName.length
+  while (tableLength + columnsLength > available) {
+    if (tableLength > columnsLength) {
+      tableLength--
+    } else {
+      columnsLength--
+    }
+  }
+  return [table.slice(0, tableLength), columnsName.slice(0, columnsLength), label]
+    .filter((x) => x !== '')
+    .join('_')
+}
+
+// Picks the first of `<table>_<columns>_<label>`, `..._<label>1`, `..._<label>2`,
+// ... that isn't taken by a relation or constraint in the schema, like Postgres
+// does for objects created without a name.
+export const generateChooseObjectNameSql = (
+  schema: string,
+  table: string,
+  columns: string[],
+  label: string
+) => {
+  const names = Array.from({ length: 100 }, (_, i) =>
+    generateObjectName(table, columns, i === 0 ? label : `${label}${i}`)
+  )
+  return `
+select x.name
+from unnest(array[${names.map((x) => literal(x)).join(',')}]) with ordinality as x(name, i)
+where not exists (
+    select from pg_class c join pg_namespace n on n.oid = c.relnamespace
+    where n.nspname = ${literal(schema)} and c.relname = x.name
+  )
+  and not exists (
+    select from pg_constraint con join pg_namespace n on n.oid = con.connamespace
+    where n.nspname = ${literal(schema)} and con.conname = x.name
+  )
+order by x.i
+limit 1;`
+}
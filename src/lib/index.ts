@@ -1,26 +1,75 @@
-export { default as PostgresMeta } from './PostgresMeta.js'
+export { default as PostgresMeta, PostgresMetaTransaction } from './PostgresMeta.js'
 export {
   PostgresMetaOk,
   PostgresMetaErr,
   PostgresMetaResult,
   PostgresColumn,
+  PostgresColumnTypeChange,
+  PostgresColumnTypeChangePreview,
   PostgresConfig,
+  PostgresConstraint,
+  PostgresConstraintCreate,
+  PostgresConstraintUpdate,
+  PostgresEventTrigger,
+  PostgresEventTriggerCreate,
+  PostgresEventTriggerUpdate,
+  PostgresExplain,
+  PostgresExplainNode,
+  PostgresExplainOptions,
   PostgresExtension,
+  PostgresForeignDataWrapper,
+  PostgresForeignSchemaImport,
+  PostgresForeignServer,
+  PostgresForeignServerCreate,
+  PostgresForeignServerUpdate,
+  PostgresForeignTable,
+  PostgresForeignTableCreate,
+  PostgresForeignTableUpdate,
   PostgresFunction,
+  PostgresFunctionCall,
   PostgresFunctionCreate,
+  PostgresFunctionUpdate,
   PostgresIndex,
+  PostgresIndexCreate,
   PostgresMaterializedView,
+  PostgresMaterializedViewCreate,
+  PostgresMaterializedViewUpdate,
   PostgresPolicy,
+  PostgresPoolStats,
   PostgresPrimaryKey,
   PostgresPublication,
+  PostgresQueryOptions,
+  PostgresQueryParameter,
+  PostgresQueryResult,
+  PostgresQueryStream,
+  PostgresQueryStreamOptions,
   PostgresRelationship,
+  PostgresReplicationSlot,
+  PostgresReplicationSlotCreate,
   PostgresRole,
+  PostgresRoleGraph,
   PostgresSchema,
   PostgresSchemaCreate,
   PostgresSchemaUpdate,
+  PostgresSequence,
+  PostgresSequenceCreate,
+  PostgresSequenceUpdate,
+  PostgresSubscription,
+  PostgresSubscriptionCreate,
+  PostgresSubscriptionUpdate,
   PostgresTable,
+  PostgresTableDuplicate,
   PostgresTrigger,
+  PostgresTypeParsing,
   PostgresType,
+  PostgresTypeCreate,
+  PostgresTypeDependents,
+  PostgresTypeUpdate,
+  PostgresUserMapping,
+  PostgresUserMappingCreate,
+  PostgresUserMappingUpdate,
   PostgresVersion,
   PostgresView,
+  PostgresViewCreate,
+  PostgresViewUpdate,
 } from './types.js'
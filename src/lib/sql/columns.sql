@@ -34,6 +34,10 @@ SELECT
     ELSE NULL
   END AS identity_generation,
   a.attgenerated IN ('s') AS is_generated,
+  CASE
+    WHEN a.attgenerated = 's' THEN pg_get_expr(ad.adbin, ad.adrelid)
+    ELSE NULL
+  END AS generation_expression,
   NOT (
     a.attnotnull
     OR t.typtype = 'd' AND t.typnotnull
@@ -57,6 +61,23 @@ SELECT
         enums.enumsortorder
     )
   ) AS enums,
+  co.collname AS collation,
+  CASE
+    a.attstorage
+    WHEN 'p' THEN 'PLAIN'
+    WHEN 'e' THEN 'EXTERNAL'
+    WHEN 'm' THEN 'MAIN'
+    WHEN 'x' THEN 'EXTENDED'
+  END AS storage,
+  -- attcompression only exists on PG14+, so it's read through to_jsonb() to
+  -- get null on older versions instead of an error.
+  CASE
+    to_jsonb(a) ->> 'attcompression'
+    WHEN 'p' THEN 'pglz'
+    WHEN 'l' THEN 'lz4'
+    ELSE NULL
+  END AS compression,
+  nullif(a.attstattarget, -1) AS statistics_target,
   col_description(c.oid, a.attnum) AS comment
 FROM
   pg_attribute a
@@ -75,6 +96,12 @@ FROM
     JOIN pg_namespace nbt ON bt.typnamespace = nbt.oid
   ) ON t.typtype = 'd'
   AND t.typbasetype = bt.oid
+  -- Like information_schema, leave out the database's default collation
+  LEFT JOIN (
+    pg_collation co
+    JOIN pg_namespace nco ON co.collnamespace = nco.oid
+  ) ON a.attcollation = co.oid
+  AND (nco.nspname, co.collname) <> ('pg_catalog', 'default')
   LEFT JOIN (
     SELECT DISTINCT ON (table_id, ordinal_position)
       conrelid AS table_id,
@@ -0,0 +1,63 @@
+select
+  con.oid::int8 as id,
+  n.nspname as schema,
+  con.conname as name,
+  con.conrelid::int8 as table_id,
+  c.relname as table,
+  case con.contype
+    when 'c' then 'check'
+    when 'f' then 'foreign_key'
+    when 'n' then 'not_null'
+    when 'p' then 'primary_key'
+    when 'u' then 'unique'
+    when 't' then 'trigger'
+    when 'x' then 'exclusion'
+  end as kind,
+  coalesce(
+    (
+      select
+        jsonb_agg(a.attname order by k.position)
+      from
+        unnest(con.conkey) with ordinality as k(attnum, position)
+        join pg_attribute a on a.attrelid = con.conrelid and a.attnum = k.attnum
+    ),
+    '[]'
+  ) as columns,
+  nullif(con.confrelid, 0)::int8 as referenced_table_id,
+  fn.nspname as referenced_schema,
+  fc.relname as referenced_table,
+  coalesce(
+    (
+      select
+        jsonb_agg(a.attname order by k.position)
+      from
+        unnest(con.confkey) with ordinality as k(attnum, position)
+        join pg_attribute a on a.attrelid = con.confrelid and a.attnum = k.attnum
+    ),
+    '[]'
+  ) as referenced_columns,
+  case con.confupdtype
+    when 'a' then 'NO ACTION'
+    when 'r' then 'RESTRICT'
+    when 'c' then 'CASCADE'
+    when 'n' then 'SET NULL'
+    when 'd' then 'SET DEFAULT'
+  end as on_update,
+  case con.confdeltype
+    when 'a' then 'NO ACTION'
+    when 'r' then 'RESTRICT'
+    when 'c' then 'CASCADE'
+    when 'n' then 'SET NULL'
+    when 'd' then 'SET DEFAULT'
+  end as on_delete,
+  con.condeferrable as is_deferrable,
+  con.condeferred as is_deferred,
+  con.convalidated as is_valid,
+  pg_get_constraintdef(con.oid) as definition,
+  obj_description(con.oid, 'pg_constraint') as comment
+from
+  pg_constraint con
+  join pg_class c on c.oid = con.conrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  left join pg_class fc on fc.oid = con.confrelid
+  left join pg_namespace fn on fn.oid = fc.relnamespace
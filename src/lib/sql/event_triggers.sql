@@ -0,0 +1,20 @@
+select
+  e.oid::int8 as id,
+  e.evtname as name,
+  e.evtevent as event,
+  coalesce(e.evttags, '{}') as tags,
+  e.evtfoid::int8 as function_id,
+  n.nspname as function_schema,
+  p.proname as function_name,
+  case
+    when e.evtenabled = 'D' then 'DISABLED'
+    when e.evtenabled = 'O' then 'ORIGIN'
+    when e.evtenabled = 'R' then 'REPLICA'
+    when e.evtenabled = 'A' then 'ALWAYS'
+  end as enabled_mode,
+  pg_get_userbyid(e.evtowner) as owner,
+  obj_description(e.oid, 'pg_event_trigger') as comment
+from
+  pg_event_trigger e
+  join pg_proc p on p.oid = e.evtfoid
+  join pg_namespace n on n.oid = p.pronamespace
@@ -0,0 +1,13 @@
+select
+  w.oid::int8 as id,
+  w.fdwname as name,
+  pg_get_userbyid(w.fdwowner) as owner,
+  case when w.fdwhandler = 0 then null else w.fdwhandler::regproc::text end as handler,
+  case when w.fdwvalidator = 0 then null else w.fdwvalidator::regproc::text end as validator,
+  coalesce(
+    (select jsonb_object_agg(option_name, option_value) from pg_options_to_table(w.fdwoptions)),
+    '{}'
+  ) as options,
+  obj_description(w.oid, 'pg_foreign_data_wrapper') as comment
+from
+  pg_foreign_data_wrapper w
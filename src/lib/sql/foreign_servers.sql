@@ -0,0 +1,16 @@
+select
+  s.oid::int8 as id,
+  s.srvname as name,
+  w.oid::int8 as wrapper_id,
+  w.fdwname as wrapper,
+  pg_get_userbyid(s.srvowner) as owner,
+  s.srvtype as type,
+  s.srvversion as version,
+  coalesce(
+    (select jsonb_object_agg(option_name, option_value) from pg_options_to_table(s.srvoptions)),
+    '{}'
+  ) as options,
+  obj_description(s.oid, 'pg_foreign_server') as comment
+from
+  pg_foreign_server s
+  join pg_foreign_data_wrapper w on w.oid = s.srvfdw
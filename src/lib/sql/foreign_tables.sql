@@ -2,9 +2,22 @@ SELECT
   c.oid :: int8 AS id,
   n.nspname AS schema,
   c.relname AS name,
+  s.oid :: int8 AS server_id,
+  s.srvname AS server,
+  coalesce(
+    (
+      SELECT
+        jsonb_object_agg(option_name, option_value)
+      FROM
+        pg_options_to_table(ft.ftoptions)
+    ),
+    '{}'
+  ) AS options,
   obj_description(c.oid) AS comment
 FROM
   pg_class c
   JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_foreign_table ft ON ft.ftrelid = c.oid
+  JOIN pg_foreign_server s ON s.oid = ft.ftserver
 WHERE
   c.relkind = 'f'
@@ -21,13 +21,17 @@ with functions as (
       array_fill(true, array[pronargdefaults])) as arg_has_defaults
   from
     pg_proc as p
-  where
-    p.prokind = 'f'
 )
 select
   f.oid::int8 as id,
   n.nspname as schema,
   f.proname as name,
+  case
+    when f.prokind = 'f' then 'function'
+    when f.prokind = 'p' then 'procedure'
+    when f.prokind = 'a' then 'aggregate'
+    when f.prokind = 'w' then 'window'
+  end as kind,
   l.lanname as language,
   case
     when l.lanname = 'internal' then ''
@@ -41,6 +45,7 @@ select
   pg_get_function_arguments(f.oid) as argument_types,
   pg_get_function_identity_arguments(f.oid) as identity_argument_types,
   f.prorettype::int8 as return_type_id,
+  -- null for procedures
   pg_get_function_result(f.oid) as return_type,
   nullif(rt.typrelid::int8, 0) as return_type_relation_id,
   f.proretset as is_set_returning_function,
@@ -50,7 +55,20 @@ select
     when f.provolatile = 'v' then 'VOLATILE'
   end as behavior,
   f.prosecdef as security_definer,
-  f_config.config_params as config_params
+  f_config.config_params as config_params,
+  f.proisstrict as is_strict,
+  f.proleakproof as is_leakproof,
+  case
+    when f.proparallel = 's' then 'SAFE'
+    when f.proparallel = 'r' then 'RESTRICTED'
+    when f.proparallel = 'u' then 'UNSAFE'
+  end as parallel,
+  f.procost::float8 as cost,
+  case
+    when f.proretset then f.prorows::float8
+  end as rows,
+  pg_get_userbyid(f.proowner) as owner,
+  obj_description(f.oid, 'pg_proc') as comment
 from
   functions f
   left join pg_namespace n on f.pronamespace = n.oid
@@ -6,7 +6,14 @@ const __dirname = dirname(fileURLToPath(import.meta.url))
 export const columnPrivilegesSql = await readFile(join(__dirname, 'column_privileges.sql'), 'utf-8')
 export const columnsSql = await readFile(join(__dirname, 'columns.sql'), 'utf-8')
 export const configSql = await readFile(join(__dirname, 'config.sql'), 'utf-8')
+export const constraintsSql = await readFile(join(__dirname, 'constraints.sql'), 'utf-8')
+export const eventTriggersSql = await readFile(join(__dirname, 'event_triggers.sql'), 'utf-8')
 export const extensionsSql = await readFile(join(__dirname, 'extensions.sql'), 'utf-8')
+export const foreignDataWrappersSql = await readFile(
+  join(__dirname, 'foreign_data_wrappers.sql'),
+  'utf-8'
+)
+export const foreignServersSql = await readFile(join(__dirname, 'foreign_servers.sql'), 'utf-8')
 export const foreignTablesSql = await readFile(join(__dirname, 'foreign_tables.sql'), 'utf-8')
 export const functionsSql = await readFile(join(__dirname, 'functions.sql'), 'utf-8')
 export const indexesSql = await readFile(join(__dirname, 'indexes.sql'), 'utf-8')
@@ -20,12 +27,20 @@ export const tableRelationshipsSql = await readFile(
   join(__dirname, 'table_relationships.sql'),
   'utf-8'
 )
+export const replicationSlotsSql = await readFile(join(__dirname, 'replication_slots.sql'), 'utf-8')
 export const rolesSql = await readFile(join(__dirname, 'roles.sql'), 'utf-8')
 export const schemasSql = await readFile(join(__dirname, 'schemas.sql'), 'utf-8')
+export const sequencesSql = await readFile(join(__dirname, 'sequences.sql'), 'utf-8')
+export const subscriptionConnectionsSql = await readFile(
+  join(__dirname, 'subscription_connections.sql'),
+  'utf-8'
+)
+export const subscriptionsSql = await readFile(join(__dirname, 'subscriptions.sql'), 'utf-8')
 export const tablePrivilegesSql = await readFile(join(__dirname, 'table_privileges.sql'), 'utf-8')
 export const tablesSql = await readFile(join(__dirname, 'tables.sql'), 'utf-8')
 export const triggersSql = await readFile(join(__dirname, 'triggers.sql'), 'utf-8')
 export const typesSql = await readFile(join(__dirname, 'types.sql'), 'utf-8')
+export const userMappingsSql = await readFile(join(__dirname, 'user_mappings.sql'), 'utf-8')
 export const versionSql = await readFile(join(__dirname, 'version.sql'), 'utf-8')
 export const viewsKeyDependenciesSql = await readFile(
   join(__dirname, 'views_key_dependencies.sql'),
@@ -2,6 +2,7 @@ SELECT
     idx.indexrelid::int8 AS id,
     idx.indrelid::int8 AS table_id,
     n.nspname AS schema,
+    c.relname AS name,
     idx.indnatts AS number_of_attributes,
     idx.indnkeyatts AS number_of_key_attributes,
     idx.indisunique AS is_unique,
@@ -35,7 +36,8 @@ SELECT
     JOIN pg_class c ON c.oid = idx.indexrelid
     JOIN pg_namespace n ON c.relnamespace = n.oid
     JOIN pg_am am ON c.relam = am.oid
-    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = ANY(idx.indkey)
-    JOIN pg_indexes ix ON c.relname = ix.indexname
+    -- Attributes of the index itself, so that expressions are included too
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0
+    JOIN pg_indexes ix ON ix.schemaname = n.nspname AND ix.indexname = c.relname
   GROUP BY
-    idx.indexrelid, idx.indrelid, n.nspname, idx.indnatts, idx.indnkeyatts, idx.indisunique, idx.indisprimary, idx.indisexclusion, idx.indimmediate, idx.indisclustered, idx.indisvalid, idx.indcheckxmin, idx.indisready, idx.indislive, idx.indisreplident, idx.indkey, idx.indcollation, idx.indclass, idx.indoption, idx.indexprs, idx.indpred, ix.indexdef, am.amname
\ No newline at end of file
+    idx.indexrelid, idx.indrelid, n.nspname, c.relname, idx.indnatts, idx.indnkeyatts, idx.indisunique, idx.indisprimary, idx.indisexclusion, idx.indimmediate, idx.indisclustered, idx.indisvalid, idx.indcheckxmin, idx.indisready, idx.indislive, idx.indisreplident, idx.indkey, idx.indcollation, idx.indclass, idx.indoption, idx.indexprs, idx.indpred, ix.indexdef, am.amname
\ No newline at end of file
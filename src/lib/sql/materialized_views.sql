@@ -3,7 +3,27 @@ select
   n.nspname as schema,
   c.relname as name,
   c.relispopulated as is_populated,
-  obj_description(c.oid) as comment
+  pg_total_relation_size(c.oid)::int8 as bytes,
+  pg_size_pretty(pg_total_relation_size(c.oid)) as size,
+  obj_description(c.oid) as comment,
+  -- Only known for refreshes done through pg-meta, which records them. The
+  -- table may not exist, so it's read in a query of its own.
+  case
+    when has_table_privilege(to_regclass('pg_meta.materialized_view_refreshes'), 'select') then (
+      xpath(
+        '/row/refreshed_at/text()',
+        query_to_xml(
+          format(
+            'select max(refreshed_at) as refreshed_at from pg_meta.materialized_view_refreshes where id = %s',
+            c.oid
+          ),
+          false,
+          true,
+          ''
+        )
+      )
+    )[1]::text::timestamptz
+  end as last_refreshed_at
 from
   pg_class c
   join pg_namespace n on n.oid = c.relnamespace
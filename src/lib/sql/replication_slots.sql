@@ -0,0 +1,18 @@
+select
+  s.slot_name as name,
+  s.slot_type as type,
+  s.plugin,
+  s.database,
+  s.temporary,
+  s.active,
+  s.active_pid,
+  s.wal_status,
+  s.restart_lsn::text,
+  s.confirmed_flush_lsn::text,
+  -- WAL the slot keeps from being removed.
+  case
+    when pg_is_in_recovery() then pg_wal_lsn_diff(pg_last_wal_receive_lsn(), s.restart_lsn)
+    else pg_wal_lsn_diff(pg_current_wal_lsn(), s.restart_lsn)
+  end::int8 as retained_wal_bytes
+from
+  pg_replication_slots s
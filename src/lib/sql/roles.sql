@@ -22,6 +22,76 @@ SELECT
   END AS connection_limit,
   rolpassword AS password,
   rolvaliduntil AS valid_until,
-  rolconfig AS config
+  rolconfig AS config,
+  -- Grants' INHERIT and SET options only exist on PG16+, so they're read
+  -- through to_jsonb() to get nulls on older versions instead of an error.
+  COALESCE(
+    (
+      SELECT
+        json_agg(
+          json_build_object(
+            'id', r.oid :: int8,
+            'name', r.rolname,
+            'admin_option', m.admin_option,
+            'inherit_option', m.inherit_option,
+            'set_option', m.set_option
+          )
+          ORDER BY r.rolname
+        )
+      FROM
+        (
+          -- On PG16+, the same role can be granted by several grantors.
+          SELECT
+            roleid,
+            bool_or(admin_option) AS admin_option,
+            bool_or((to_jsonb(pg_auth_members) ->> 'inherit_option') :: bool) AS inherit_option,
+            bool_or((to_jsonb(pg_auth_members) ->> 'set_option') :: bool) AS set_option
+          FROM
+            pg_auth_members
+          WHERE
+            member = pg_roles.oid
+          GROUP BY
+            roleid
+        ) m
+        JOIN pg_roles r ON r.oid = m.roleid
+    ),
+    '[]'
+  ) AS member_of,
+  COALESCE(
+    (
+      WITH RECURSIVE memberships AS (
+        SELECT
+          roleid
+        FROM
+          pg_auth_members
+        WHERE
+          member = pg_roles.oid
+        UNION
+        SELECT
+          m.roleid
+        FROM
+          pg_auth_members m
+          JOIN memberships ON m.member = memberships.roleid
+      )
+      SELECT
+        json_agg(
+          json_build_object('id', r.oid :: int8, 'name', r.rolname)
+          ORDER BY r.rolname
+        )
+      FROM
+        memberships
+        JOIN pg_roles r ON r.oid = memberships.roleid
+      WHERE
+        NOT EXISTS (
+          SELECT
+          FROM
+            pg_auth_members
+          WHERE
+            member = pg_roles.oid
+            AND roleid = r.oid
+        )
+    ),
+    '[]'
+  ) AS inherited_member_of
 FROM
   pg_roles
@@ -0,0 +1,48 @@
+select
+  c.oid::int8 as id,
+  n.nspname as schema,
+  c.relname as name,
+  format_type(s.seqtypid, null) as data_type,
+  s.seqstart as start_value,
+  s.seqincrement as increment,
+  s.seqmin as min_value,
+  s.seqmax as max_value,
+  s.seqcycle as is_cycled,
+  s.seqcache as cache_size,
+  l.last_value,
+  case
+    when l.last_value is null then null
+    when s.seqincrement > 0 then round(
+      100.0 * (l.last_value - s.seqmin) / (s.seqmax::numeric - s.seqmin),
+      2
+    )::float8
+    else round(100.0 * (s.seqmax - l.last_value) / (s.seqmax::numeric - s.seqmin), 2)::float8
+  end as percent_used,
+  coalesce(d.deptype = 'i', false) as is_identity,
+  d.refobjid::int8 as owned_by_table_id,
+  tn.nspname as owned_by_schema,
+  t.relname as owned_by_table,
+  a.attname as owned_by_column,
+  obj_description(c.oid, 'pg_class') as comment
+from
+  pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  join pg_sequence s on s.seqrelid = c.oid
+  -- Reading the last value needs privileges on the sequence.
+  left join lateral (
+    select
+      case
+        when has_sequence_privilege(c.oid, 'SELECT,USAGE') then pg_sequence_last_value(c.oid)
+      end as last_value
+  ) l on true
+  left join pg_depend d on d.classid = 'pg_class'::regclass
+  and d.objid = c.oid
+  and d.refclassid = 'pg_class'::regclass
+  and d.refobjsubid > 0
+  and d.deptype in ('a', 'i')
+  left join pg_class t on t.oid = d.refobjid
+  left join pg_namespace tn on tn.oid = t.relnamespace
+  left join pg_attribute a on a.attrelid = d.refobjid
+  and a.attnum = d.refobjsubid
+where
+  c.relkind = 'S'
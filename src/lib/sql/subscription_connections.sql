@@ -0,0 +1,16 @@
+-- Passwords in the connection string, in both key=value and URI forms, are
+-- never shown.
+select
+  s.oid::int8 as id,
+  regexp_replace(
+    regexp_replace(
+      s.subconninfo,
+      '(password\s*=\s*)(''(\\.|[^''])*''|\S+)',
+      '\1REDACTED',
+      'g'
+    ),
+    '(://[^:/@]*):[^@/]*@',
+    '\1:REDACTED@'
+  ) as connection
+from
+  pg_subscription s
@@ -0,0 +1,85 @@
+select
+  s.oid::int8 as id,
+  s.subname as name,
+  pg_get_userbyid(s.subowner) as owner,
+  s.subenabled as enabled,
+  s.subslotname as slot_name,
+  s.subpublications as publications,
+  s.subsynccommit as synchronous_commit,
+  s.subbinary as binary,
+  -- A boolean before PG16, and a "char" since, with 'p' for parallel.
+  case s.substream::text
+    when 'false' then 'off'
+    when 'f' then 'off'
+    when 'true' then 'on'
+    when 't' then 'on'
+    when 'p' then 'parallel'
+  end as streaming,
+  case
+    when not s.subenabled then 'disabled'
+    when exists (
+      select
+      from
+        pg_stat_subscription w
+      where
+        w.subid = s.oid
+        and w.relid is null
+        and w.pid is not null
+    ) then 'running'
+    else 'stopped'
+  end as status,
+  -- The apply worker (without table_id) and any table synchronization workers.
+  coalesce(
+    (
+      select
+        jsonb_agg(
+          jsonb_build_object(
+            'pid', w.pid,
+            'table_id', w.relid::int8,
+            'received_lsn', w.received_lsn::text,
+            'latest_end_lsn', w.latest_end_lsn::text,
+            'last_msg_send_time', w.last_msg_send_time,
+            'last_msg_receipt_time', w.last_msg_receipt_time,
+            'latest_end_time', w.latest_end_time
+          )
+        )
+      from
+        pg_stat_subscription w
+      where
+        w.subid = s.oid
+        and w.pid is not null
+    ),
+    '[]'
+  ) as workers,
+  coalesce(
+    (
+      select
+        jsonb_agg(
+          jsonb_build_object(
+            'id', c.oid::int8,
+            'schema', n.nspname,
+            'name', c.relname,
+            'state', case r.srsubstate
+              when 'i' then 'initializing'
+              when 'd' then 'copying'
+              when 'f' then 'finished_copy'
+              when 's' then 'synchronized'
+              when 'r' then 'ready'
+            end
+          )
+          order by n.nspname, c.relname
+        )
+      from
+        pg_subscription_rel r
+        join pg_class c on c.oid = r.srrelid
+        join pg_namespace n on n.oid = c.relnamespace
+      where
+        r.srsubid = s.oid
+    ),
+    '[]'
+  ) as tables,
+  obj_description(s.oid, 'pg_subscription') as comment
+from
+  pg_subscription s
+where
+  s.subdbid = (select oid from pg_database where datname = current_database())
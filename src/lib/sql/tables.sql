@@ -17,6 +17,17 @@ SELECT
   pg_stat_get_live_tuples(c.oid) AS live_rows_estimate,
   pg_stat_get_dead_tuples(c.oid) AS dead_rows_estimate,
   obj_description(c.oid) AS comment,
+  CASE
+    WHEN pt.partstrat = 'r' THEN 'RANGE'
+    WHEN pt.partstrat = 'l' THEN 'LIST'
+    WHEN pt.partstrat = 'h' THEN 'HASH'
+  END AS partition_strategy,
+  -- pg_get_partkeydef() also includes the strategy, e.g. RANGE (created_at)
+  substring(pg_get_partkeydef(c.oid) from '\((.*)\)$') AS partition_key,
+  (
+    SELECT i.inhparent :: int8 FROM pg_inherits i WHERE i.inhrelid = c.oid AND c.relispartition
+  ) AS partition_parent_id,
+  pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
   coalesce(pk.primary_keys, '[]') as primary_keys,
   coalesce(
     jsonb_agg(relationships) filter (where relationships is not null),
@@ -25,6 +36,7 @@ SELECT
 FROM
   pg_namespace nc
   JOIN pg_class c ON nc.oid = c.relnamespace
+  LEFT JOIN pg_partitioned_table pt ON pt.partrelid = c.oid
   left join (
     select
       table_id,
@@ -94,5 +106,9 @@ group by
   c.relrowsecurity,
   c.relforcerowsecurity,
   c.relreplident,
+  c.relispartition,
+  -- pg_node_tree can't be grouped by
+  pg_get_expr(c.relpartbound, c.oid),
+  pt.partstrat,
   nc.nspname,
   pk.primary_keys
@@ -5,10 +5,15 @@ select
   format_type (t.oid, null) as format,
   coalesce(t_enums.enums, '[]') as enums,
   coalesce(t_attributes.attributes, '[]') as attributes,
+  case when t.typtype = 'd' then t.typbasetype::int8 end as domain_base_type_id,
+  case when t.typtype = 'd' then format_type (t.typbasetype, t.typtypmod) end as domain_base_type,
+  r.rngsubtype::int8 as range_subtype_id,
+  format_type (r.rngsubtype, null) as range_subtype,
   obj_description (t.oid, 'pg_type') as comment
 from
   pg_type t
   left join pg_namespace n on n.oid = t.typnamespace
+  left join pg_range r on r.rngtypid = t.oid
   left join (
     select
       enumtypid,
@@ -0,0 +1,24 @@
+-- pg_user_mappings only shows options to the mapped user, the server owner
+-- with USAGE on it, and superusers. Passwords are never shown.
+select
+  um.umid::int8 as id,
+  um.srvid::int8 as server_id,
+  um.srvname as server,
+  um.usename as user,
+  case
+    when um.umoptions is null then null
+    else coalesce(
+      (
+        select
+          jsonb_object_agg(
+            option_name,
+            case when option_name = 'password' then 'REDACTED' else option_value end
+          )
+        from
+          pg_options_to_table(um.umoptions)
+      ),
+      '{}'
+    )
+  end as options
+from
+  pg_user_mappings um
@@ -4,6 +4,36 @@ SELECT
   c.relname AS name,
   -- See definition of information_schema.views
   (pg_relation_is_updatable(c.oid, false) & 20) = 20 AS is_updatable,
+  coalesce(
+    (
+      SELECT
+        option_value :: bool
+      FROM
+        pg_options_to_table(c.reloptions)
+      WHERE
+        option_name = 'security_invoker'
+    ),
+    false
+  ) AS security_invoker,
+  coalesce(
+    (
+      SELECT
+        option_value :: bool
+      FROM
+        pg_options_to_table(c.reloptions)
+      WHERE
+        option_name = 'security_barrier'
+    ),
+    false
+  ) AS security_barrier,
+  (
+    SELECT
+      upper(option_value)
+    FROM
+      pg_options_to_table(c.reloptions)
+    WHERE
+      option_name = 'check_option'
+  ) AS check_option,
   obj_description(c.oid) AS comment
 FROM
   pg_class c
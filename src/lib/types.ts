@@ -16,6 +16,132 @@ export interface PostgresMetaErr {
 
 export type PostgresMetaResult<T> = PostgresMetaOk<T> | PostgresMetaErr
 
+// A bind parameter for `query()`. Use the `{ value, type }` form to pass a
+// type hint, e.g. `{ value: '9007199254740993', type: 'int8' }` or
+// `{ value: { a: 1 }, type: 'jsonb' }`. The hint is the parameter's type in
+// the statement, as if it were cast, so `$1` needs no `::int8`.
+export const postgresQueryParameterSchema = Type.Union([
+  Type.Null(),
+  Type.String(),
+  Type.Number(),
+  Type.Boolean(),
+  Type.Array(Type.Unknown()),
+  Type.Object({
+    value: Type.Unknown(),
+    type: Type.String(),
+  }),
+])
+export type PostgresQueryParameter = Static<typeof postgresQueryParameterSchema>
+
+// How values are turned into JS values:
+// - default: int8 as a number when it fits, as a string otherwise, numeric as a string
+// - string: int8 and numeric as strings
+// - tagged: int8 and numeric as { type, value } with value as a string
+export type PostgresTypeParsing = 'default' | 'string' | 'tagged'
+
+export interface PostgresQueryOptions {
+  // Return one PostgresQueryResult per statement instead of the rows of the
+  // last statement that returned any.
+  resultSets?: boolean
+  // statement_timeout for this query alone, in milliseconds.
+  statementTimeout?: number
+  // Cancels the running statement with pg_cancel_backend once aborted.
+  signal?: AbortSignal
+  // Runs the query in a read-only transaction that is then rolled back.
+  readOnly?: boolean
+  // Runs the query in a transaction that is then rolled back, e.g. to see the
+  // effects of a statement without keeping them.
+  rollback?: boolean
+  typeParsing?: PostgresTypeParsing
+}
+
+export const postgresQueryResultSchema = Type.Object({
+  command: Type.Union([Type.String(), Type.Null()]),
+  row_count: Type.Union([Type.Integer(), Type.Null()]),
+  fields: Type.Array(
+    Type.Object({
+      name: Type.String(),
+      type_id: Type.Integer(),
+      type: Type.Union([Type.String(), Type.Null()]),
+    })
+  ),
+  rows: Type.Array(Type.Unknown()),
+})
+export type PostgresQueryResult = Static<typeof postgresQueryResultSchema>
+
+export interface PostgresExplainOptions {
+  parameters?: PostgresQueryParameter[]
+  // Runs the query, in a transaction that is then rolled back.
+  analyze?: boolean
+  buffers?: boolean
+  settings?: boolean
+  readOnly?: boolean
+}
+
+export const postgresExplainNodeSchema = Type.Recursive((Node) =>
+  Type.Object({
+    node_type: Type.String(),
+    relation: Type.Union([Type.String(), Type.Null()]),
+    // Per loop, like actual_rows.
+    estimated_rows: Type.Number(),
+    startup_cost: Type.Number(),
+    total_cost: Type.Number(),
+    // These are only set with analyze.
+    actual_rows: Type.Union([Type.Number(), Type.Null()]),
+    loops: Type.Union([Type.Number(), Type.Null()]),
+    // Milliseconds, over all loops, including children.
+    actual_time: Type.Union([Type.Number(), Type.Null()]),
+    // Share of the execution time spent in this node alone, from 0 to 1.
+    time_share: Type.Union([Type.Number(), Type.Null()]),
+    warnings: Type.Array(Type.String()),
+    // Everything else EXPLAIN reports about the node, e.g. "Filter".
+    details: Type.Record(Type.String(), Type.Unknown()),
+    children: Type.Array(Node),
+  })
+)
+export type PostgresExplainNode = Static<typeof postgresExplainNodeSchema>
+
+export const postgresExplainSchema = Type.Object({
+  plan: postgresExplainNodeSchema,
+  planning_time: Type.Union([Type.Number(), Type.Null()]),
+  execution_time: Type.Union([Type.Number(), Type.Null()]),
+  settings: Type.Union([Type.Record(Type.String(), Type.String()), Type.Null()]),
+})
+export type PostgresExplain = Static<typeof postgresExplainSchema>
+
+export interface PostgresPoolStats {
+  // Clients connected, whether checked out or idle.
+  total: number
+  idle: number
+  // Callers waiting for a client to free up.
+  waiting: number
+}
+
+export interface PostgresQueryStreamOptions {
+  // Number of rows fetched from the cursor at a time.
+  batchSize?: number
+  // Declares the cursor in a read-only transaction.
+  readOnly?: boolean
+  typeParsing?: PostgresTypeParsing
+  // statement_timeout for the query and each fetch, in milliseconds.
+  statementTimeout?: number
+  // Cancels whatever statement is running when aborted.
+  signal?: AbortSignal
+}
+
+export interface PostgresQueryStream {
+  fields: PostgresQueryResult['fields']
+  // Batches of rows, each row being an array of values in the order of `fields`.
+  rows: AsyncGenerator<unknown[][]>
+}
+
+const postgresColumnStorageSchema = Type.Union([
+  Type.Literal('PLAIN'),
+  Type.Literal('EXTERNAL'),
+  Type.Literal('MAIN'),
+  Type.Literal('EXTENDED'),
+])
+
 export const postgresColumnSchema = Type.Object({
   table_id: Type.Integer(),
   schema: Type.String(),
@@ -33,11 +159,19 @@ export const postgresColumnSchema = Type.Object({
     Type.Null(),
   ]),
   is_generated: Type.Boolean(),
+  generation_expression: Type.Union([Type.String(), Type.Null()]),
   is_nullable: Type.Boolean(),
   is_updatable: Type.Boolean(),
   is_unique: Type.Boolean(),
   enums: Type.Array(Type.String()),
   check: Type.Union([Type.String(), Type.Null()]),
+  // Null when it's the database's default.
+  collation: Type.Union([Type.String(), Type.Null()]),
+  storage: postgresColumnStorageSchema,
+  // Null when it's the default_toast_compression setting.
+  compression: Type.Union([Type.String(), Type.Null()]),
+  // Null when it's the default_statistics_target setting.
+  statistics_target: Type.Union([Type.Integer(), Type.Null()]),
   comment: Type.Union([Type.String(), Type.Null()]),
 })
 export type PostgresColumn = Static<typeof postgresColumnSchema>
@@ -57,6 +191,12 @@ export const postgresColumnCreateSchema = Type.Object({
   is_nullable: Type.Optional(Type.Boolean()),
   is_primary_key: Type.Optional(Type.Boolean()),
   is_unique: Type.Optional(Type.Boolean()),
+  // Makes it a `GENERATED ALWAYS AS (...) STORED` column.
+  generation_expression: Type.Optional(Type.String()),
+  collation: Type.Optional(Type.String()),
+  storage: Type.Optional(postgresColumnStorageSchema),
+  compression: Type.Optional(Type.String()),
+  statistics_target: Type.Optional(Type.Integer()),
   comment: Type.Optional(Type.String()),
   check: Type.Optional(Type.String()),
 })
@@ -65,6 +205,9 @@ export type PostgresColumnCreate = Static<typeof postgresColumnCreateSchema>
 export const postgresColumnUpdateSchema = Type.Object({
   name: Type.Optional(Type.String()),
   type: Type.Optional(Type.String()),
+  // Expression converting the old values, e.g. `to_timestamp(created_at)`.
+  // Defaults to a plain cast.
+  using: Type.Optional(Type.String()),
   drop_default: Type.Optional(Type.Boolean()),
   default_value: Type.Optional(Type.Unknown()),
   default_value_format: Type.Optional(
@@ -76,6 +219,14 @@ export const postgresColumnUpdateSchema = Type.Object({
   ),
   is_nullable: Type.Optional(Type.Boolean()),
   is_unique: Type.Optional(Type.Boolean()),
+  // Turns a generated column into a regular one, keeping its values.
+  drop_generation_expression: Type.Optional(Type.Boolean()),
+  // null resets these to their defaults. Type.Null() must go first:
+  // https://github.com/sinclairzx81/typebox/issues/546
+  collation: Type.Optional(Type.Union([Type.Null(), Type.String()])),
+  storage: Type.Optional(postgresColumnStorageSchema),
+  compression: Type.Optional(Type.Union([Type.Null(), Type.String()])),
+  statistics_target: Type.Optional(Type.Union([Type.Null(), Type.Integer()])),
   comment: Type.Optional(Type.String()),
   check: Type.Optional(
     Type.Union(
@@ -86,6 +237,36 @@ export const postgresColumnUpdateSchema = Type.Object({
 })
 export type PostgresColumnUpdate = Static<typeof postgresColumnUpdateSchema>
 
+export const postgresColumnTypeChangeSchema = Type.Object({
+  type: Type.String(),
+  using: Type.Optional(Type.String()),
+})
+export type PostgresColumnTypeChange = Static<typeof postgresColumnTypeChangeSchema>
+
+export const postgresColumnTypeChangePreviewSchema = Type.Object({
+  from_type: Type.String(),
+  to_type: Type.String(),
+  total_rows: Type.Integer(),
+  // Less than total_rows if some values fail, in which case only the first
+  // rows are checked one by one.
+  checked_rows: Type.Integer(),
+  // Whether rows were left unchecked, making failing_rows a lower bound.
+  truncated: Type.Boolean(),
+  failing_rows: Type.Integer(),
+  // Up to 10 of the failing values, as text.
+  examples: Type.Array(
+    Type.Object({
+      value: Type.Union([Type.String(), Type.Null()]),
+      error: Type.String(),
+    })
+  ),
+  // A cautious upper bound: with `using`, this is always true, although
+  // Postgres skips the rewrite if the expression amounts to a binary coercible
+  // cast of the column.
+  may_require_rewrite: Type.Boolean(),
+})
+export type PostgresColumnTypeChangePreview = Static<typeof postgresColumnTypeChangePreviewSchema>
+
 // TODO Rethink config.sql
 export const postgresConfigSchema = Type.Object({
   name: Type.Unknown(),
@@ -110,6 +291,166 @@ export const postgresConfigSchema = Type.Object({
 })
 export type PostgresConfig = Static<typeof postgresConfigSchema>
 
+const postgresReferentialActionSchema = Type.Union([
+  Type.Literal('NO ACTION'),
+  Type.Literal('RESTRICT'),
+  Type.Literal('CASCADE'),
+  Type.Literal('SET NULL'),
+  Type.Literal('SET DEFAULT'),
+])
+
+export const postgresConstraintSchema = Type.Object({
+  id: Type.Integer(),
+  schema: Type.String(),
+  name: Type.String(),
+  table_id: Type.Integer(),
+  table: Type.String(),
+  kind: Type.Union([
+    Type.Literal('check'),
+    Type.Literal('foreign_key'),
+    Type.Literal('not_null'),
+    Type.Literal('primary_key'),
+    Type.Literal('unique'),
+    Type.Literal('trigger'),
+    Type.Literal('exclusion'),
+  ]),
+  columns: Type.Array(Type.String()),
+  referenced_table_id: Type.Union([Type.Integer(), Type.Null()]),
+  referenced_schema: Type.Union([Type.String(), Type.Null()]),
+  referenced_table: Type.Union([Type.String(), Type.Null()]),
+  referenced_columns: Type.Array(Type.String()),
+  on_update: Type.Union([postgresReferentialActionSchema, Type.Null()]),
+  on_delete: Type.Union([postgresReferentialActionSchema, Type.Null()]),
+  is_deferrable: Type.Boolean(),
+  is_deferred: Type.Boolean(),
+  is_valid: Type.Boolean(),
+  definition: Type.String(),
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresConstraint = Static<typeof postgresConstraintSchema>
+
+export const postgresIndexAccessMethodSchema = Type.Union([
+  Type.Literal('btree'),
+  Type.Literal('hash'),
+  Type.Literal('gist'),
+  Type.Literal('spgist'),
+  Type.Literal('gin'),
+  Type.Literal('brin'),
+])
+
+const postgresConstraintCreateBaseSchema = {
+  table_id: Type.Integer(),
+  name: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+}
+const postgresConstraintDeferrableSchema = {
+  is_deferrable: Type.Optional(Type.Boolean()),
+  is_deferred: Type.Optional(Type.Boolean()),
+}
+
+export const postgresConstraintCreateSchema = Type.Union([
+  Type.Object({
+    kind: Type.Literal('check'),
+    ...postgresConstraintCreateBaseSchema,
+    check: Type.String(),
+    no_inherit: Type.Optional(Type.Boolean()),
+    not_valid: Type.Optional(Type.Boolean()),
+  }),
+  Type.Object({
+    kind: Type.Literal('foreign_key'),
+    ...postgresConstraintCreateBaseSchema,
+    ...postgresConstraintDeferrableSchema,
+    columns: Type.Array(Type.String()),
+    referenced_table_id: Type.Integer(),
+    // Defaults to the referenced table's primary key.
+    referenced_columns: Type.Optional(Type.Array(Type.String())),
+    match: Type.Optional(
+      Type.Union([Type.Literal('FULL'), Type.Literal('PARTIAL'), Type.Literal('SIMPLE')])
+    ),
+    on_update: Type.Optional(postgresReferentialActionSchema),
+    on_delete: Type.Optional(postgresReferentialActionSchema),
+    not_valid: Type.Optional(Type.Boolean()),
+  }),
+  Type.Object({
+    kind: Type.Union([Type.Literal('primary_key'), Type.Literal('unique')]),
+    ...postgresConstraintCreateBaseSchema,
+    ...postgresConstraintDeferrableSchema,
+    columns: Type.Array(Type.String()),
+    include: Type.Optional(Type.Array(Type.String())),
+  }),
+  Type.Object({
+    kind: Type.Literal('exclusion'),
+    ...postgresConstraintCreateBaseSchema,
+    ...postgresConstraintDeferrableSchema,
+    access_method: Type.Optional(postgresIndexAccessMethodSchema),
+    elements: Type.Array(
+      Type.Object({
+        name: Type.Optional(Type.String()),
+        expression: Type.Optional(Type.String()),
+        opclass: Type.Optional(Type.String()),
+        // May be schema-qualified, e.g. `pg_catalog.&&`.
+        operator: Type.String(),
+      })
+    ),
+    include: Type.Optional(Type.Array(Type.String())),
+    where: Type.Optional(Type.String()),
+  }),
+])
+export type PostgresConstraintCreate = Static<typeof postgresConstraintCreateSchema>
+
+export const postgresConstraintUpdateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresConstraintUpdate = Static<typeof postgresConstraintUpdateSchema>
+
+const postgresEventTriggerEventSchema = Type.Union([
+  Type.Literal('ddl_command_start'),
+  Type.Literal('ddl_command_end'),
+  Type.Literal('sql_drop'),
+  Type.Literal('table_rewrite'),
+])
+const postgresEventTriggerEnabledModeSchema = Type.Union([
+  Type.Literal('ORIGIN'),
+  Type.Literal('REPLICA'),
+  Type.Literal('ALWAYS'),
+  Type.Literal('DISABLED'),
+])
+
+export const postgresEventTriggerSchema = Type.Object({
+  id: Type.Integer(),
+  name: Type.String(),
+  event: postgresEventTriggerEventSchema,
+  // Empty when the trigger fires for all command tags.
+  tags: Type.Array(Type.String()),
+  function_id: Type.Integer(),
+  function_schema: Type.String(),
+  function_name: Type.String(),
+  enabled_mode: postgresEventTriggerEnabledModeSchema,
+  owner: Type.String(),
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresEventTrigger = Static<typeof postgresEventTriggerSchema>
+
+export const postgresEventTriggerCreateSchema = Type.Object({
+  name: Type.String(),
+  event: postgresEventTriggerEventSchema,
+  tags: Type.Optional(Type.Array(Type.String())),
+  function_schema: Type.Optional(Type.String()),
+  function_name: Type.String(),
+  enabled_mode: Type.Optional(postgresEventTriggerEnabledModeSchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresEventTriggerCreate = Static<typeof postgresEventTriggerCreateSchema>
+
+export const postgresEventTriggerUpdateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  enabled_mode: Type.Optional(postgresEventTriggerEnabledModeSchema),
+  owner: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresEventTriggerUpdate = Static<typeof postgresEventTriggerUpdateSchema>
+
 export const postgresExtensionSchema = Type.Object({
   name: Type.String(),
   schema: Type.Union([Type.String(), Type.Null()]),
@@ -119,19 +460,160 @@ export const postgresExtensionSchema = Type.Object({
 })
 export type PostgresExtension = Static<typeof postgresExtensionSchema>
 
+// Options of foreign data wrappers, servers, user mappings, foreign tables and
+// their columns. On update, options set to null are dropped.
+const postgresForeignOptionsSchema = Type.Record(Type.String(), Type.String())
+const postgresForeignOptionsUpdateSchema = Type.Record(
+  Type.String(),
+  // Type.Null() must go first: https://github.com/sinclairzx81/typebox/issues/546
+  Type.Union([Type.Null(), Type.String()])
+)
+
+export const postgresForeignDataWrapperSchema = Type.Object({
+  id: Type.Integer(),
+  name: Type.String(),
+  owner: Type.String(),
+  handler: Type.Union([Type.String(), Type.Null()]),
+  validator: Type.Union([Type.String(), Type.Null()]),
+  options: postgresForeignOptionsSchema,
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresForeignDataWrapper = Static<typeof postgresForeignDataWrapperSchema>
+
+export const postgresForeignServerSchema = Type.Object({
+  id: Type.Integer(),
+  name: Type.String(),
+  wrapper_id: Type.Integer(),
+  wrapper: Type.String(),
+  owner: Type.String(),
+  type: Type.Union([Type.String(), Type.Null()]),
+  version: Type.Union([Type.String(), Type.Null()]),
+  options: postgresForeignOptionsSchema,
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresForeignServer = Static<typeof postgresForeignServerSchema>
+
+export const postgresForeignServerCreateSchema = Type.Object({
+  name: Type.String(),
+  wrapper: Type.String(),
+  type: Type.Optional(Type.String()),
+  version: Type.Optional(Type.String()),
+  options: Type.Optional(postgresForeignOptionsSchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresForeignServerCreate = Static<typeof postgresForeignServerCreateSchema>
+
+export const postgresForeignServerUpdateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  owner: Type.Optional(Type.String()),
+  version: Type.Optional(Type.Union([Type.Null(), Type.String()])),
+  options: Type.Optional(postgresForeignOptionsUpdateSchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresForeignServerUpdate = Static<typeof postgresForeignServerUpdateSchema>
+
+export const postgresUserMappingSchema = Type.Object({
+  id: Type.Integer(),
+  server_id: Type.Integer(),
+  server: Type.String(),
+  // `public` for the mapping used for roles without their own.
+  user: Type.String(),
+  // Null when the current role isn't allowed to see them. The password, if
+  // any, is always redacted.
+  options: Type.Union([postgresForeignOptionsSchema, Type.Null()]),
+})
+export type PostgresUserMapping = Static<typeof postgresUserMappingSchema>
+
+export const postgresUserMappingCreateSchema = Type.Object({
+  server: Type.String(),
+  user: Type.String(),
+  options: Type.Optional(postgresForeignOptionsSchema),
+})
+export type PostgresUserMappingCreate = Static<typeof postgresUserMappingCreateSchema>
+
+export const postgresUserMappingUpdateSchema = Type.Object({
+  options: Type.Optional(postgresForeignOptionsUpdateSchema),
+})
+export type PostgresUserMappingUpdate = Static<typeof postgresUserMappingUpdateSchema>
+
 export const postgresForeignTableSchema = Type.Object({
   id: Type.Integer(),
   schema: Type.String(),
   name: Type.String(),
+  server_id: Type.Integer(),
+  server: Type.String(),
+  options: postgresForeignOptionsSchema,
   comment: Type.Union([Type.String(), Type.Null()]),
   columns: Type.Optional(Type.Array(postgresColumnSchema)),
 })
 export type PostgresForeignTable = Static<typeof postgresForeignTableSchema>
 
+export const postgresForeignTableCreateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.String(),
+  server: Type.String(),
+  columns: Type.Optional(
+    Type.Array(
+      Type.Object({
+        name: Type.String(),
+        type: Type.String(),
+        is_nullable: Type.Optional(Type.Boolean()),
+        options: Type.Optional(postgresForeignOptionsSchema),
+      })
+    )
+  ),
+  options: Type.Optional(postgresForeignOptionsSchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresForeignTableCreate = Static<typeof postgresForeignTableCreateSchema>
+
+export const postgresForeignTableUpdateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.Optional(Type.String()),
+  columns: Type.Optional(
+    Type.Array(
+      Type.Object({
+        name: Type.String(),
+        options: postgresForeignOptionsUpdateSchema,
+      })
+    )
+  ),
+  options: Type.Optional(postgresForeignOptionsUpdateSchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresForeignTableUpdate = Static<typeof postgresForeignTableUpdateSchema>
+
+export const postgresForeignSchemaImportSchema = Type.Object({
+  server: Type.String(),
+  remote_schema: Type.String(),
+  local_schema: Type.String(),
+  limit_to: Type.Optional(Type.Array(Type.String())),
+  except: Type.Optional(Type.Array(Type.String())),
+  options: Type.Optional(postgresForeignOptionsSchema),
+})
+export type PostgresForeignSchemaImport = Static<typeof postgresForeignSchemaImportSchema>
+
+const postgresFunctionBehaviorSchema = Type.Union([
+  Type.Literal('IMMUTABLE'),
+  Type.Literal('STABLE'),
+  Type.Literal('VOLATILE'),
+])
+const postgresFunctionParallelSchema = Type.Union([
+  Type.Literal('SAFE'),
+  Type.Literal('RESTRICTED'),
+  Type.Literal('UNSAFE'),
+])
+
 const postgresFunctionSchema = Type.Object({
   id: Type.Integer(),
   schema: Type.String(),
   name: Type.String(),
+  kind: Type.Union([
+    Type.Literal('function'),
+    Type.Literal('procedure'),
+    Type.Literal('aggregate'),
+    Type.Literal('window'),
+  ]),
   language: Type.String(),
   definition: Type.String(),
   complete_statement: Type.String(),
@@ -152,38 +634,84 @@ const postgresFunctionSchema = Type.Object({
   argument_types: Type.String(),
   identity_argument_types: Type.String(),
   return_type_id: Type.Integer(),
-  return_type: Type.String(),
+  // Procedures have no return type.
+  return_type: Type.Union([Type.String(), Type.Null()]),
   return_type_relation_id: Type.Union([Type.Integer(), Type.Null()]),
   is_set_returning_function: Type.Boolean(),
-  behavior: Type.Union([
-    Type.Literal('IMMUTABLE'),
-    Type.Literal('STABLE'),
-    Type.Literal('VOLATILE'),
-  ]),
+  behavior: postgresFunctionBehaviorSchema,
   security_definer: Type.Boolean(),
   config_params: Type.Union([Type.Record(Type.String(), Type.String()), Type.Null()]),
+  is_strict: Type.Boolean(),
+  is_leakproof: Type.Boolean(),
+  parallel: postgresFunctionParallelSchema,
+  cost: Type.Number(),
+  // Estimated number of rows, only for set-returning functions.
+  rows: Type.Union([Type.Number(), Type.Null()]),
+  owner: Type.String(),
+  comment: Type.Union([Type.String(), Type.Null()]),
 })
 export type PostgresFunction = Static<typeof postgresFunctionSchema>
 
 export const postgresFunctionCreateFunction = Type.Object({
   name: Type.String(),
+  // Defaults to `function`. Procedures take no `return_type` or `behavior`.
+  kind: Type.Optional(Type.Union([Type.Literal('function'), Type.Literal('procedure')])),
   definition: Type.String(),
   args: Type.Optional(Type.Array(Type.String())),
-  behavior: Type.Optional(
-    Type.Union([Type.Literal('IMMUTABLE'), Type.Literal('STABLE'), Type.Literal('VOLATILE')])
-  ),
+  behavior: Type.Optional(postgresFunctionBehaviorSchema),
   config_params: Type.Optional(Type.Record(Type.String(), Type.String())),
   schema: Type.Optional(Type.String()),
   language: Type.Optional(Type.String()),
   return_type: Type.Optional(Type.String()),
   security_definer: Type.Optional(Type.Boolean()),
+  is_strict: Type.Optional(Type.Boolean()),
+  is_leakproof: Type.Optional(Type.Boolean()),
+  parallel: Type.Optional(postgresFunctionParallelSchema),
+  cost: Type.Optional(Type.Number()),
+  rows: Type.Optional(Type.Number()),
 })
 export type PostgresFunctionCreate = Static<typeof postgresFunctionCreateFunction>
 
+export const postgresFunctionUpdateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  schema: Type.Optional(Type.String()),
+  definition: Type.Optional(Type.String()),
+  behavior: Type.Optional(postgresFunctionBehaviorSchema),
+  security_definer: Type.Optional(Type.Boolean()),
+  // Replaces all the current config params.
+  config_params: Type.Optional(Type.Record(Type.String(), Type.String())),
+  is_strict: Type.Optional(Type.Boolean()),
+  is_leakproof: Type.Optional(Type.Boolean()),
+  parallel: Type.Optional(postgresFunctionParallelSchema),
+  cost: Type.Optional(Type.Number()),
+  rows: Type.Optional(Type.Number()),
+  owner: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresFunctionUpdate = Static<typeof postgresFunctionUpdateSchema>
+
+const postgresFunctionCallArgSchema = Type.Union([
+  Type.String(),
+  Type.Number(),
+  Type.Boolean(),
+  Type.Null(),
+])
+export const postgresFunctionCallSchema = Type.Object({
+  // Positional, or by name for procedures with defaults.
+  args: Type.Optional(
+    Type.Union([
+      Type.Array(postgresFunctionCallArgSchema),
+      Type.Record(Type.String(), postgresFunctionCallArgSchema),
+    ])
+  ),
+})
+export type PostgresFunctionCall = Static<typeof postgresFunctionCallSchema>
+
 const postgresIndexSchema = Type.Object({
   id: Type.Integer(),
   table_id: Type.Integer(),
   schema: Type.String(),
+  name: Type.String(),
   number_of_attributes: Type.Integer(),
   number_of_key_attributes: Type.Integer(),
   is_unique: Type.Boolean(),
@@ -204,6 +732,8 @@ const postgresIndexSchema = Type.Object({
   comment: Type.Union([Type.String(), Type.Null()]),
   index_definition: Type.String(),
   access_method: Type.String(),
+  // Every column of the index in order, numbered by position in the index,
+  // including expressions and INCLUDE columns.
   index_attributes: Type.Array(
     Type.Object({
       attribute_number: Type.Number(),
@@ -214,6 +744,30 @@ const postgresIndexSchema = Type.Object({
 })
 export type PostgresIndex = Static<typeof postgresIndexSchema>
 
+export const postgresIndexCreateSchema = Type.Object({
+  table_id: Type.Integer(),
+  name: Type.Optional(Type.String()),
+  // Each key is either a column name or an expression.
+  columns: Type.Array(
+    Type.Object({
+      name: Type.Optional(Type.String()),
+      expression: Type.Optional(Type.String()),
+      collation: Type.Optional(Type.String()),
+      opclass: Type.Optional(Type.String()),
+      order: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')])),
+      nulls: Type.Optional(Type.Union([Type.Literal('FIRST'), Type.Literal('LAST')])),
+    })
+  ),
+  access_method: Type.Optional(postgresIndexAccessMethodSchema),
+  is_unique: Type.Optional(Type.Boolean()),
+  nulls_not_distinct: Type.Optional(Type.Boolean()),
+  include: Type.Optional(Type.Array(Type.String())),
+  where: Type.Optional(Type.String()),
+  concurrently: Type.Optional(Type.Boolean()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresIndexCreate = Static<typeof postgresIndexCreateSchema>
+
 export const postgresPolicySchema = Type.Object({
   id: Type.Integer(),
   schema: Type.String(),
@@ -263,6 +817,36 @@ export const postgresPublicationSchema = Type.Object({
 })
 export type PostgresPublication = Static<typeof postgresPublicationSchema>
 
+export const postgresReplicationSlotSchema = Type.Object({
+  name: Type.String(),
+  type: Type.Union([Type.Literal('logical'), Type.Literal('physical')]),
+  plugin: Type.Union([Type.String(), Type.Null()]),
+  database: Type.Union([Type.String(), Type.Null()]),
+  temporary: Type.Boolean(),
+  active: Type.Boolean(),
+  active_pid: Type.Union([Type.Integer(), Type.Null()]),
+  wal_status: Type.Union([Type.String(), Type.Null()]),
+  restart_lsn: Type.Union([Type.String(), Type.Null()]),
+  confirmed_flush_lsn: Type.Union([Type.String(), Type.Null()]),
+  retained_wal_bytes: Type.Union([Type.Integer(), Type.Null()]),
+})
+export type PostgresReplicationSlot = Static<typeof postgresReplicationSlotSchema>
+
+export const postgresReplicationSlotCreateSchema = Type.Union([
+  Type.Object({
+    type: Type.Literal('logical'),
+    name: Type.String(),
+    plugin: Type.Optional(Type.String()),
+  }),
+  Type.Object({
+    type: Type.Literal('physical'),
+    name: Type.String(),
+    // Reserves WAL right away instead of on the first connection.
+    immediately_reserve: Type.Optional(Type.Boolean()),
+  }),
+])
+export type PostgresReplicationSlotCreate = Static<typeof postgresReplicationSlotCreateSchema>
+
 export const postgresRelationshipOldSchema = Type.Object({
   id: Type.Integer(),
   constraint_name: Type.String(),
@@ -292,6 +876,15 @@ export const PostgresMetaRoleConfigSchema = Type.Object({
 })
 export type PostgresMetaRoleConfig = Static<typeof PostgresMetaRoleConfigSchema>
 
+const postgresRoleMembershipSchema = Type.Object({
+  id: Type.Integer(),
+  name: Type.String(),
+  admin_option: Type.Boolean(),
+  // Null before PG16, where grants don't have these options.
+  inherit_option: Type.Union([Type.Boolean(), Type.Null()]),
+  set_option: Type.Union([Type.Boolean(), Type.Null()]),
+})
+
 export const postgresRoleSchema = Type.Object({
   id: Type.Integer(),
   name: Type.String(),
@@ -307,6 +900,10 @@ export const postgresRoleSchema = Type.Object({
   password: Type.String(),
   valid_until: Type.Union([Type.String(), Type.Null()]),
   config: Type.Union([Type.String(), Type.Null(), Type.Record(Type.String(), Type.String())]),
+  // Roles this role is granted directly.
+  member_of: Type.Array(postgresRoleMembershipSchema),
+  // Roles this role is a member of through other roles.
+  inherited_member_of: Type.Array(Type.Object({ id: Type.Integer(), name: Type.String() })),
 })
 export type PostgresRole = Static<typeof postgresRoleSchema>
 
@@ -345,6 +942,57 @@ export const postgresRoleUpdateSchema = Type.Object({
 })
 export type PostgresRoleUpdate = Static<typeof postgresRoleUpdateSchema>
 
+export const postgresRoleGrantSchema = Type.Object({
+  // The role to grant.
+  role: Type.String(),
+  admin_option: Type.Optional(Type.Boolean()),
+  // PG16+ only.
+  inherit_option: Type.Optional(Type.Boolean()),
+  set_option: Type.Optional(Type.Boolean()),
+})
+export type PostgresRoleGrant = Static<typeof postgresRoleGrantSchema>
+
+export const postgresRoleRevokeSchema = Type.Object({
+  // The role to revoke.
+  role: Type.String(),
+  // Revokes only this option, keeping the membership. INHERIT and SET are PG16+ only.
+  option: Type.Optional(
+    Type.Union([Type.Literal('ADMIN'), Type.Literal('INHERIT'), Type.Literal('SET')])
+  ),
+  cascade: Type.Optional(Type.Boolean()),
+})
+export type PostgresRoleRevoke = Static<typeof postgresRoleRevokeSchema>
+
+export const postgresRoleGraphSchema = Type.Object({
+  nodes: Type.Array(
+    Type.Object({
+      id: Type.Integer(),
+      name: Type.String(),
+      is_superuser: Type.Boolean(),
+      can_login: Type.Boolean(),
+      relationship: Type.Union([
+        Type.Literal('self'),
+        Type.Literal('member_of'),
+        Type.Literal('member'),
+      ]),
+      // Whether privileges are inherited along some path between the node and
+      // the role: the role's own privileges for its members, and the node's
+      // privileges for the roles it's a member of.
+      inherits: Type.Boolean(),
+    })
+  ),
+  edges: Type.Array(
+    Type.Object({
+      role_id: Type.Integer(),
+      member_id: Type.Integer(),
+      admin_option: Type.Boolean(),
+      inherit_option: Type.Boolean(),
+      set_option: Type.Boolean(),
+    })
+  ),
+})
+export type PostgresRoleGraph = Static<typeof postgresRoleGraphSchema>
+
 export const postgresSchemaSchema = Type.Object({
   id: Type.Integer(),
   name: Type.String(),
@@ -364,6 +1012,148 @@ export const postgresSchemaUpdateSchema = Type.Object({
 })
 export type PostgresSchemaUpdate = Static<typeof postgresSchemaUpdateSchema>
 
+// Sequence values are int8, which are strings when outside of JS's safe
+// integer range, e.g. the default max_value of bigint sequences.
+const postgresSequenceValueSchema = Type.Union([Type.Integer(), Type.String()])
+
+export const postgresSequenceSchema = Type.Object({
+  id: Type.Integer(),
+  schema: Type.String(),
+  name: Type.String(),
+  data_type: Type.String(),
+  start_value: postgresSequenceValueSchema,
+  increment: postgresSequenceValueSchema,
+  min_value: postgresSequenceValueSchema,
+  max_value: postgresSequenceValueSchema,
+  is_cycled: Type.Boolean(),
+  cache_size: postgresSequenceValueSchema,
+  last_value: Type.Union([postgresSequenceValueSchema, Type.Null()]),
+  percent_used: Type.Union([Type.Number(), Type.Null()]),
+  is_identity: Type.Boolean(),
+  owned_by_table_id: Type.Union([Type.Integer(), Type.Null()]),
+  owned_by_schema: Type.Union([Type.String(), Type.Null()]),
+  owned_by_table: Type.Union([Type.String(), Type.Null()]),
+  owned_by_column: Type.Union([Type.String(), Type.Null()]),
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresSequence = Static<typeof postgresSequenceSchema>
+
+const postgresSequenceOwnedBySchema = Type.Object({
+  table_id: Type.Integer(),
+  column: Type.String(),
+})
+
+export const postgresSequenceCreateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.String(),
+  data_type: Type.Optional(
+    Type.Union([Type.Literal('smallint'), Type.Literal('integer'), Type.Literal('bigint')])
+  ),
+  start_value: Type.Optional(Type.Integer()),
+  increment: Type.Optional(Type.Integer()),
+  min_value: Type.Optional(Type.Integer()),
+  max_value: Type.Optional(Type.Integer()),
+  is_cycled: Type.Optional(Type.Boolean()),
+  cache_size: Type.Optional(Type.Integer()),
+  owned_by: Type.Optional(postgresSequenceOwnedBySchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresSequenceCreate = Static<typeof postgresSequenceCreateSchema>
+
+export const postgresSequenceUpdateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.Optional(Type.String()),
+  data_type: Type.Optional(
+    Type.Union([Type.Literal('smallint'), Type.Literal('integer'), Type.Literal('bigint')])
+  ),
+  start_value: Type.Optional(Type.Integer()),
+  // Value the sequence continues from, i.e. the next nextval().
+  restart_value: Type.Optional(Type.Integer()),
+  increment: Type.Optional(Type.Integer()),
+  min_value: Type.Optional(Type.Integer()),
+  max_value: Type.Optional(Type.Integer()),
+  is_cycled: Type.Optional(Type.Boolean()),
+  cache_size: Type.Optional(Type.Integer()),
+  // null detaches the sequence from its column.
+  owned_by: Type.Optional(Type.Union([postgresSequenceOwnedBySchema, Type.Null()])),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresSequenceUpdate = Static<typeof postgresSequenceUpdateSchema>
+
+export const postgresSubscriptionSchema = Type.Object({
+  id: Type.Integer(),
+  name: Type.String(),
+  owner: Type.String(),
+  enabled: Type.Boolean(),
+  // Null for roles that can't read connection strings, i.e. non-superusers by default.
+  connection: Type.Union([Type.String(), Type.Null()]),
+  slot_name: Type.Union([Type.String(), Type.Null()]),
+  publications: Type.Array(Type.String()),
+  synchronous_commit: Type.String(),
+  binary: Type.Boolean(),
+  streaming: Type.Union([Type.Literal('off'), Type.Literal('on'), Type.Literal('parallel')]),
+  status: Type.Union([Type.Literal('disabled'), Type.Literal('running'), Type.Literal('stopped')]),
+  workers: Type.Array(
+    Type.Object({
+      pid: Type.Integer(),
+      // null for the apply worker, set for table synchronization workers.
+      table_id: Type.Union([Type.Integer(), Type.Null()]),
+      received_lsn: Type.Union([Type.String(), Type.Null()]),
+      latest_end_lsn: Type.Union([Type.String(), Type.Null()]),
+      last_msg_send_time: Type.Union([Type.String(), Type.Null()]),
+      last_msg_receipt_time: Type.Union([Type.String(), Type.Null()]),
+      latest_end_time: Type.Union([Type.String(), Type.Null()]),
+    })
+  ),
+  tables: Type.Array(
+    Type.Object({
+      id: Type.Integer(),
+      schema: Type.String(),
+      name: Type.String(),
+      state: Type.Union([
+        Type.Literal('initializing'),
+        Type.Literal('copying'),
+        Type.Literal('finished_copy'),
+        Type.Literal('synchronized'),
+        Type.Literal('ready'),
+      ]),
+    })
+  ),
+  comment: Type.Union([Type.String(), Type.Null()]),
+})
+export type PostgresSubscription = Static<typeof postgresSubscriptionSchema>
+
+export const postgresSubscriptionCreateSchema = Type.Object({
+  name: Type.String(),
+  connection: Type.String(),
+  publications: Type.Array(Type.String()),
+  enabled: Type.Optional(Type.Boolean()),
+  copy_data: Type.Optional(Type.Boolean()),
+  // Needs to be false when the publisher is in the same cluster, with the
+  // slot created beforehand.
+  create_slot: Type.Optional(Type.Boolean()),
+  slot_name: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresSubscriptionCreate = Static<typeof postgresSubscriptionCreateSchema>
+
+export const postgresSubscriptionUpdateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  owner: Type.Optional(Type.String()),
+  enabled: Type.Optional(Type.Boolean()),
+  connection: Type.Optional(Type.String()),
+  // null dissociates the subscription from its slot, e.g. to drop it without
+  // dropping the slot. Needs the subscription to be disabled.
+  slot_name: Type.Optional(Type.Union([Type.Null(), Type.String()])),
+  publications: Type.Optional(Type.Array(Type.String())),
+  // Fetches the tables of the publications, after setting them if given.
+  refresh: Type.Optional(Type.Boolean()),
+  // Whether to copy the existing data of newly subscribed tables on refresh.
+  copy_data: Type.Optional(Type.Boolean()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresSubscriptionUpdate = Static<typeof postgresSubscriptionUpdateSchema>
+
 export const postgresTableSchema = Type.Object({
   id: Type.Integer(),
   schema: Type.String(),
@@ -381,19 +1171,121 @@ export const postgresTableSchema = Type.Object({
   live_rows_estimate: Type.Integer(),
   dead_rows_estimate: Type.Integer(),
   comment: Type.Union([Type.String(), Type.Null()]),
+  // Set on partitioned tables.
+  partition_strategy: Type.Union([
+    Type.Literal('RANGE'),
+    Type.Literal('LIST'),
+    Type.Literal('HASH'),
+    Type.Null(),
+  ]),
+  partition_key: Type.Union([Type.String(), Type.Null()]),
+  // Set on partitions, e.g. `FOR VALUES FROM ('2024-01-01') TO ('2024-02-01')` or `DEFAULT`.
+  partition_parent_id: Type.Union([Type.Integer(), Type.Null()]),
+  partition_bound: Type.Union([Type.String(), Type.Null()]),
   columns: Type.Optional(Type.Array(postgresColumnSchema)),
   primary_keys: Type.Array(postgresPrimaryKeySchema),
   relationships: Type.Array(postgresRelationshipOldSchema),
 })
 export type PostgresTable = Static<typeof postgresTableSchema>
 
+const postgresTablePartitionBySchema = Type.Object({
+  strategy: Type.Union([Type.Literal('RANGE'), Type.Literal('LIST'), Type.Literal('HASH')]),
+  // Columns or expressions, e.g. `created_at` or `lower(email)`.
+  key: Type.String(),
+})
+
+const postgresTableConstraintCreateSchema = Type.Union([
+  Type.Object({
+    kind: Type.Literal('check'),
+    name: Type.Optional(Type.String()),
+    check: Type.String(),
+    no_inherit: Type.Optional(Type.Boolean()),
+  }),
+  Type.Object({
+    kind: Type.Literal('foreign_key'),
+    name: Type.Optional(Type.String()),
+    ...postgresConstraintDeferrableSchema,
+    columns: Type.Array(Type.String()),
+    referenced_table_id: Type.Integer(),
+    // Defaults to the referenced table's primary key.
+    referenced_columns: Type.Optional(Type.Array(Type.String())),
+    match: Type.Optional(
+      Type.Union([Type.Literal('FULL'), Type.Literal('PARTIAL'), Type.Literal('SIMPLE')])
+    ),
+    on_update: Type.Optional(postgresReferentialActionSchema),
+    on_delete: Type.Optional(postgresReferentialActionSchema),
+  }),
+  Type.Object({
+    kind: Type.Literal('unique'),
+    name: Type.Optional(Type.String()),
+    ...postgresConstraintDeferrableSchema,
+    columns: Type.Array(Type.String()),
+    include: Type.Optional(Type.Array(Type.String())),
+  }),
+])
+
 export const postgresTableCreateSchema = Type.Object({
   name: Type.String(),
   schema: Type.Optional(Type.String()),
+  columns: Type.Optional(Type.Array(Type.Omit(postgresColumnCreateSchema, ['table_id']))),
+  // Column names, for a composite primary key.
+  primary_keys: Type.Optional(Type.Array(Type.String())),
+  constraints: Type.Optional(Type.Array(postgresTableConstraintCreateSchema)),
+  unlogged: Type.Optional(Type.Boolean()),
+  // IDs of the parent tables.
+  inherits: Type.Optional(Type.Array(Type.Integer())),
+  // Copies the columns, constraints, indexes etc. of this table, with `LIKE ... INCLUDING ALL`.
+  like_table_id: Type.Optional(Type.Integer()),
+  // E.g. `{ "fillfactor": 70, "autovacuum_enabled": false }`.
+  storage_parameters: Type.Optional(
+    Type.Record(Type.String(), Type.Union([Type.String(), Type.Number(), Type.Boolean()]))
+  ),
+  rls_enabled: Type.Optional(Type.Boolean()),
+  rls_forced: Type.Optional(Type.Boolean()),
+  partition_by: Type.Optional(postgresTablePartitionBySchema),
   comment: Type.Optional(Type.String()),
 })
 export type PostgresTableCreate = Static<typeof postgresTableCreateSchema>
 
+export const postgresTableDuplicateSchema = Type.Object({
+  name: Type.String(),
+  // Defaults to the schema of the table being duplicated.
+  schema: Type.Optional(Type.String()),
+  data: Type.Optional(Type.Boolean()),
+  indexes: Type.Optional(Type.Boolean()),
+  policies: Type.Optional(Type.Boolean()),
+  triggers: Type.Optional(Type.Boolean()),
+})
+export type PostgresTableDuplicate = Static<typeof postgresTableDuplicateSchema>
+
+export const postgresTablePartitionCreateSchema = Type.Object({
+  name: Type.String(),
+  schema: Type.Optional(Type.String()),
+  // In the format of partition_bound, e.g. `FOR VALUES IN ('a', 'b')` or `DEFAULT`.
+  partition_bound: Type.String(),
+  // Makes the partition itself partitioned.
+  partition_by: Type.Optional(postgresTablePartitionBySchema),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresTablePartitionCreate = Static<typeof postgresTablePartitionCreateSchema>
+
+export const postgresTablePartitionAttachSchema = Type.Object({
+  table_id: Type.Integer(),
+  partition_bound: Type.String(),
+})
+export type PostgresTablePartitionAttach = Static<typeof postgresTablePartitionAttachSchema>
+
+export const postgresTableRangePartitionsCreateSchema = Type.Object({
+  // E.g. `1 month` or `1 day`.
+  interval: Type.String(),
+  count: Type.Integer({ minimum: 1 }),
+  // Defaults to the upper bound of the last partition.
+  start: Type.Optional(Type.String()),
+})
+export type PostgresTableRangePartitionsCreate = Static<
+  typeof postgresTableRangePartitionsCreateSchema
+>
+
 export const postgresTableUpdateSchema = Type.Object({
   name: Type.Optional(Type.String()),
   schema: Type.Optional(Type.String()),
@@ -451,10 +1343,120 @@ export const postgresTypeSchema = Type.Object({
       type_id: Type.Integer(),
     })
   ),
+  domain_base_type_id: Type.Union([Type.Integer(), Type.Null()]),
+  domain_base_type: Type.Union([Type.String(), Type.Null()]),
+  range_subtype_id: Type.Union([Type.Integer(), Type.Null()]),
+  range_subtype: Type.Union([Type.String(), Type.Null()]),
   comment: Type.Union([Type.String(), Type.Null()]),
 })
 export type PostgresType = Static<typeof postgresTypeSchema>
 
+const postgresTypeAttributeCreateSchema = Type.Object({
+  name: Type.String(),
+  type: Type.String(),
+  collation: Type.Optional(Type.String()),
+})
+
+const postgresDomainConstraintCreateSchema = Type.Object({
+  name: Type.Optional(Type.String()),
+  check: Type.String(),
+})
+
+export const postgresTypeCreateSchema = Type.Union([
+  Type.Object({
+    kind: Type.Literal('enum'),
+    schema: Type.Optional(Type.String()),
+    name: Type.String(),
+    values: Type.Array(Type.String()),
+    comment: Type.Optional(Type.String()),
+  }),
+  Type.Object({
+    kind: Type.Literal('composite'),
+    schema: Type.Optional(Type.String()),
+    name: Type.String(),
+    attributes: Type.Array(postgresTypeAttributeCreateSchema),
+    comment: Type.Optional(Type.String()),
+  }),
+  Type.Object({
+    kind: Type.Literal('domain'),
+    schema: Type.Optional(Type.String()),
+    name: Type.String(),
+    base_type: Type.String(),
+    collation: Type.Optional(Type.String()),
+    default_value: Type.Optional(Type.String()),
+    is_nullable: Type.Optional(Type.Boolean()),
+    constraints: Type.Optional(Type.Array(postgresDomainConstraintCreateSchema)),
+    comment: Type.Optional(Type.String()),
+  }),
+])
+export type PostgresTypeCreate = Static<typeof postgresTypeCreateSchema>
+
+export const postgresTypeUpdateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+  // Enums
+  add_values: Type.Optional(
+    Type.Array(
+      Type.Object({
+        value: Type.String(),
+        before: Type.Optional(Type.String()),
+        after: Type.Optional(Type.String()),
+      })
+    )
+  ),
+  rename_values: Type.Optional(Type.Array(Type.Object({ from: Type.String(), to: Type.String() }))),
+  // Composite types
+  add_attributes: Type.Optional(Type.Array(postgresTypeAttributeCreateSchema)),
+  alter_attributes: Type.Optional(
+    Type.Array(
+      Type.Object({
+        name: Type.String(),
+        type: Type.String(),
+        collation: Type.Optional(Type.String()),
+      })
+    )
+  ),
+  rename_attributes: Type.Optional(
+    Type.Array(Type.Object({ from: Type.String(), to: Type.String() }))
+  ),
+  drop_attributes: Type.Optional(Type.Array(Type.String())),
+  // Domains
+  // Type.Null() must go first: https://github.com/sinclairzx81/typebox/issues/546
+  default_value: Type.Optional(Type.Union([Type.Null(), Type.String()])),
+  is_nullable: Type.Optional(Type.Boolean()),
+  add_constraints: Type.Optional(Type.Array(postgresDomainConstraintCreateSchema)),
+  drop_constraints: Type.Optional(Type.Array(Type.String())),
+})
+export type PostgresTypeUpdate = Static<typeof postgresTypeUpdateSchema>
+
+export const postgresTypeDependentsSchema = Type.Object({
+  columns: Type.Array(
+    Type.Object({
+      table_id: Type.Integer(),
+      schema: Type.String(),
+      table: Type.String(),
+      name: Type.String(),
+    })
+  ),
+  functions: Type.Array(
+    Type.Object({
+      id: Type.Integer(),
+      schema: Type.String(),
+      name: Type.String(),
+      identity_argument_types: Type.String(),
+    })
+  ),
+  domains: Type.Array(
+    Type.Object({
+      id: Type.Integer(),
+      schema: Type.String(),
+      name: Type.String(),
+    })
+  ),
+})
+export type PostgresTypeDependents = Static<typeof postgresTypeDependentsSchema>
+
 export const postgresVersionSchema = Type.Object({
   version: Type.String(),
   version_number: Type.Integer(),
@@ -468,21 +1470,72 @@ export const postgresViewSchema = Type.Object({
   schema: Type.String(),
   name: Type.String(),
   is_updatable: Type.Boolean(),
+  security_invoker: Type.Boolean(),
+  security_barrier: Type.Boolean(),
+  check_option: Type.Union([Type.Literal('LOCAL'), Type.Literal('CASCADED'), Type.Null()]),
   comment: Type.Union([Type.String(), Type.Null()]),
   columns: Type.Optional(Type.Array(postgresColumnSchema)),
 })
 export type PostgresView = Static<typeof postgresViewSchema>
 
+export const postgresViewCreateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.String(),
+  query: Type.String(),
+  security_invoker: Type.Optional(Type.Boolean()),
+  security_barrier: Type.Optional(Type.Boolean()),
+  check_option: Type.Optional(Type.Union([Type.Literal('LOCAL'), Type.Literal('CASCADED')])),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresViewCreate = Static<typeof postgresViewCreateSchema>
+
+export const postgresViewUpdateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.Optional(Type.String()),
+  query: Type.Optional(Type.String()),
+  security_invoker: Type.Optional(Type.Boolean()),
+  security_barrier: Type.Optional(Type.Boolean()),
+  check_option: Type.Optional(
+    Type.Union([Type.Literal('LOCAL'), Type.Literal('CASCADED'), Type.Null()])
+  ),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresViewUpdate = Static<typeof postgresViewUpdateSchema>
+
 export const postgresMaterializedViewSchema = Type.Object({
   id: Type.Integer(),
   schema: Type.String(),
   name: Type.String(),
   is_populated: Type.Boolean(),
+  bytes: Type.Integer(),
+  size: Type.String(),
   comment: Type.Union([Type.String(), Type.Null()]),
+  // Null unless it was last created with data or refreshed through pg-meta.
+  last_refreshed_at: Type.Union([Type.String(), Type.Null()]),
   columns: Type.Optional(Type.Array(postgresColumnSchema)),
 })
 export type PostgresMaterializedView = Static<typeof postgresMaterializedViewSchema>
 
+export const postgresMaterializedViewCreateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.String(),
+  query: Type.String(),
+  with_data: Type.Optional(Type.Boolean()),
+  tablespace: Type.Optional(Type.String()),
+  storage_parameters: Type.Optional(
+    Type.Record(Type.String(), Type.Union([Type.String(), Type.Number(), Type.Boolean()]))
+  ),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresMaterializedViewCreate = Static<typeof postgresMaterializedViewCreateSchema>
+
+export const postgresMaterializedViewUpdateSchema = Type.Object({
+  schema: Type.Optional(Type.String()),
+  name: Type.Optional(Type.String()),
+  comment: Type.Optional(Type.String()),
+})
+export type PostgresMaterializedViewUpdate = Static<typeof postgresMaterializedViewUpdateSchema>
+
 export const postgresTablePrivilegesSchema = Type.Object({
   relation_id: Type.Integer(),
   schema: Type.String(),
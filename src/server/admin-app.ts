@@ -1,6 +1,7 @@
 import { fastify, FastifyInstance, FastifyServerOptions } from 'fastify'
 
 import FastifyMetrics from 'fastify-metrics'
+import { pools } from './pools.js'
 
 export function build(opts: FastifyServerOptions = {}): FastifyInstance {
   const app = fastify(opts)
@@ -9,5 +10,6 @@ export function build(opts: FastifyServerOptions = {}): FastifyInstance {
     endpoint: '/metrics',
     routeMetrics: { enabled: false },
   })
+  app.get('/pools', async () => pools.stats())
   return app
 }
@@ -1,13 +1,16 @@
 import cors from '@fastify/cors'
 import swagger from '@fastify/swagger'
 import { fastify, FastifyInstance, FastifyServerOptions } from 'fastify'
-import { PG_META_REQ_HEADER } from './constants.js'
+import { PG_META_READ_ONLY, PG_META_REQ_HEADER } from './constants.js'
 import routes from './routes/index.js'
 import { extractRequestForLogging } from './utils.js'
 // Pseudo package declared only for this module
 import pkg from '#package.json' assert { type: 'json' }
 
-export const build = (opts: FastifyServerOptions = {}): FastifyInstance => {
+export const build = (
+  opts: FastifyServerOptions = {},
+  { readOnly = PG_META_READ_ONLY }: { readOnly?: boolean } = {}
+): FastifyInstance => {
   const app = fastify({
     disableRequestLogging: true,
     requestIdHeader: PG_META_REQ_HEADER,
@@ -50,7 +53,7 @@ export const build = (opts: FastifyServerOptions = {}): FastifyInstance => {
     return { date: new Date() }
   })
 
-  app.register(routes)
+  app.register(routes, { readOnly })
 
   return app
 }
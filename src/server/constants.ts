@@ -51,4 +51,14 @@ export const DEFAULT_POOL_CONFIG: PoolConfig = {
   ssl: PG_META_DB_SSL_ROOT_CERT ? { ca: PG_META_DB_SSL_ROOT_CERT } : undefined,
 }
 
+// Connections are pooled per connection string, see pools.ts.
+export const PG_META_POOL_MAX_SIZE = Number(process.env.PG_META_POOL_MAX_SIZE || 10)
+export const PG_META_POOL_IDLE_TIMEOUT_SECS = Number(
+  process.env.PG_META_POOL_IDLE_TIMEOUT_SECS || 300
+)
+export const PG_META_MAX_POOLS = Number(process.env.PG_META_MAX_POOLS || 50)
+
+// Refuses every request that could change the database, see routes/index.ts.
+export const PG_META_READ_ONLY = process.env.PG_META_READ_ONLY === 'true'
+
 export const PG_META_REQ_HEADER = process.env.PG_META_REQ_HEADER || 'request-id'
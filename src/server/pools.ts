@@ -0,0 +1,141 @@
+import { PostgresMeta, PostgresPoolStats } from '../lib/index.js'
+import {
+  DEFAULT_POOL_CONFIG,
+  PG_META_MAX_POOLS,
+  PG_META_POOL_IDLE_TIMEOUT_SECS,
+  PG_META_POOL_MAX_SIZE,
+} from './constants.js'
+
+interface PoolEntry {
+  pgMeta: PostgresMeta
+  lastUsedAt: number
+}
+
+export interface PoolRegistryStats {
+  max_pools: number
+  max_size: number
+  idle_timeout_secs: number
+  pools: (PostgresPoolStats & { connection: string; last_used_at: string })[]
+}
+
+// Hides the password, as stats are meant to be exposed.
+const redactConnectionString = (connectionString: string) => {
+  try {
+    const url = new URL(connectionString)
+    if (url.password) url.password = 'REDACTED'
+    url.search = ''
+    return url.toString()
+  } catch {
+    return 'REDACTED'
+  }
+}
+
+/**
+ * Keeps one PostgresMeta, and so one connection pool, per connection string
+ * so that requests reuse connections instead of paying for a new one each.
+ * Pools left unused for `idleTimeoutSecs` are closed, as is the least recently
+ * used one when there are more than `maxPools`.
+ */
+export class PoolRegistry {
+  maxSize: number
+  idleTimeoutSecs: number
+  maxPools: number
+  private pools = new Map<string, PoolEntry>()
+  private sweeper: NodeJS.Timeout | null = null
+
+  constructor({
+    maxSize,
+    idleTimeoutSecs,
+    maxPools,
+  }: {
+    maxSize: number
+    idleTimeoutSecs: number
+    maxPools: number
+  }) {
+    this.maxSize = maxSize
+    this.idleTimeoutSecs = idleTimeoutSecs
+    this.maxPools = maxPools
+  }
+
+  get(connectionString: string): PostgresMeta {
+    let entry = this.pools.get(connectionString)
+    if (entry) {
+      // Map iteration follows insertion order, so re-inserting keeps the least
+      // recently used pool first.
+      this.pools.delete(connectionString)
+    } else {
+      entry = {
+        pgMeta: new PostgresMeta({
+          ...DEFAULT_POOL_CONFIG,
+          max: this.maxSize,
+          idleTimeoutMillis: this.idleTimeoutSecs * 1000,
+          connectionString,
+        }),
+        lastUsedAt: 0,
+      }
+    }
+    entry.lastUsedAt = Date.now()
+    this.pools.set(connectionString, entry)
+
+    for (const [key, { pgMeta }] of this.pools) {
+      if (this.pools.size <= this.maxPools) break
+      this.pools.delete(key)
+      // Queries still running on an evicted pool finish before it closes.
+      pgMeta.end().catch(() => {})
+    }
+    this.startSweeper()
+    return entry.pgMeta
+  }
+
+  stats(): PoolRegistryStats {
+    return {
+      max_pools: this.maxPools,
+      max_size: this.maxSize,
+      idle_timeout_secs: this.idleTimeoutSecs,
+      pools: [...this.pools].map(([connectionString, { pgMeta, lastUsedAt }]) => ({
+        connection: redactConnectionString(connectionString),
+        ...pgMeta.poolStats(),
+        last_used_at: new Date(lastUsedAt).toISOString(),
+      })),
+    }
+  }
+
+  async end() {
+    if (this.sweeper) {
+      clearInterval(this.sweeper)
+      this.sweeper = null
+    }
+    const pools = [...this.pools.values()]
+    this.pools.clear()
+    await Promise.all(pools.map(({ pgMeta }) => pgMeta.end()))
+  }
+
+  private startSweeper() {
+    if (this.sweeper) return
+    this.sweeper = setInterval(
+      () => {
+        const now = Date.now()
+        for (const [key, { pgMeta, lastUsedAt }] of this.pools) {
+          const { total, idle } = pgMeta.poolStats()
+          if (now - lastUsedAt >= this.idleTimeoutSecs * 1000 && total === idle) {
+            this.pools.delete(key)
+            pgMeta.end().catch(() => {})
+          }
+        }
+        if (this.pools.size === 0 && this.sweeper) {
+          clearInterval(this.sweeper)
+          this.sweeper = null
+        }
+      },
+      Math.max(this.idleTimeoutSecs * 1000, 1000) / 2
+    )
+    // Don't keep the process alive just for this.
+    this.sweeper.unref()
+  }
+}
+
+export const pools = new PoolRegistry({
+  maxSize: PG_META_POOL_MAX_SIZE,
+  idleTimeoutSecs: PG_META_POOL_IDLE_TIMEOUT_SECS,
+  maxPools: PG_META_MAX_POOLS,
+})
@@ -0,0 +1,191 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
+import { Type } from '@sinclair/typebox'
+import { PostgresMetaTransaction } from '../../lib/index.js'
+import { PostgresMetaResult } from '../../lib/types.js'
+import { pools } from '../pools.js'
+import { extractRequestForLogging, translateErrorToResponseCode } from '../utils.js'
+
+const errorSchema = Type.Object({
+  error: Type.String(),
+  // The operation that failed, if any.
+  index: Type.Optional(Type.Integer()),
+})
+
+type BatchOperation = (
+  pgMeta: PostgresMetaTransaction,
+  { id, params }: { id?: any; params?: any }
+) => Promise<PostgresMetaResult<unknown>>
+
+const operations: Record<string, BatchOperation> = {
+  query: (pgMeta, { params }) => pgMeta.query(params.query, params.parameters),
+  'column_privileges.grant': (pgMeta, { params }) => pgMeta.columnPrivileges.grant(params),
+  'column_privileges.revoke': (pgMeta, { params }) => pgMeta.columnPrivileges.revoke(params),
+  'columns.create': (pgMeta, { params }) => pgMeta.columns.create(params),
+  'columns.update': (pgMeta, { id, params }) => pgMeta.columns.update(id, params),
+  'columns.remove': (pgMeta, { id, params }) => pgMeta.columns.remove(id, params),
+  'columns.preview_type_change': (pgMeta, { id, params }) =>
+    pgMeta.columns.previewTypeChange(id, params),
+  'constraints.create': (pgMeta, { params }) => pgMeta.constraints.create(params),
+  'constraints.update': (pgMeta, { id, params }) => pgMeta.constraints.update(id, params),
+  'constraints.validate': (pgMeta, { id }) => pgMeta.constraints.validate(id),
+  'constraints.remove': (pgMeta, { id, params }) => pgMeta.constraints.remove(id, params),
+  'event_triggers.create': (pgMeta, { params }) => pgMeta.eventTriggers.create(params),
+  'event_triggers.update': (pgMeta, { id, params }) => pgMeta.eventTriggers.update(id, params),
+  'event_triggers.remove': (pgMeta, { id, params }) => pgMeta.eventTriggers.remove(id, params),
+  'extensions.create': (pgMeta, { params }) => pgMeta.extensions.create(params),
+  'extensions.update': (pgMeta, { id, params }) => pgMeta.extensions.update(id, params),
+  'extensions.remove': (pgMeta, { id, params }) => pgMeta.extensions.remove(id, params),
+  'foreign_servers.create': (pgMeta, { params }) => pgMeta.foreignServers.create(params),
+  'foreign_servers.update': (pgMeta, { id, params }) => pgMeta.foreignServers.update(id, params),
+  'foreign_servers.remove': (pgMeta, { id, params }) => pgMeta.foreignServers.remove(id, params),
+  'foreign_tables.create': (pgMeta, { params }) => pgMeta.foreignTables.create(params),
+  'foreign_tables.update': (pgMeta, { id, params }) => pgMeta.foreignTables.update(id, params),
+  'foreign_tables.remove': (pgMeta, { id, params }) => pgMeta.foreignTables.remove(id, params),
+  'foreign_tables.import_schema': (pgMeta, { params }) => pgMeta.foreignTables.importSchema(params),
+  'functions.create': (pgMeta, { params }) => pgMeta.functions.create(params),
+  'functions.update': (pgMeta, { id, params }) => pgMeta.functions.update(id, params),
+  'functions.remove': (pgMeta, { id, params }) => pgMeta.functions.remove(id, params),
+  'functions.call': (pgMeta, { id, params }) => pgMeta.functions.call(id, params),
+  'indexes.create': (pgMeta, { params }) => pgMeta.indexes.create(params),
+  'indexes.remove': (pgMeta, { id, params }) => pgMeta.indexes.remove(id, params),
+  'indexes.reindex': (pgMeta, { id, params }) => pgMeta.indexes.reindex(id, params),
+  'materialized_views.create': (pgMeta, { params }) => pgMeta.materializedViews.create(params),
+  'materialized_views.update': (pgMeta, { id, params }) =>
+    pgMeta.materializedViews.update(id, params),
+  'materialized_views.remove': (pgMeta, { id, params }) =>
+    pgMeta.materializedViews.remove(id, params),
+  'materialized_views.refresh': (pgMeta, { id, params }) =>
+    pgMeta.materializedViews.refresh(id, params),
+  'policies.create': (pgMeta, { params }) => pgMeta.policies.create(params),
+  'policies.update': (pgMeta, { id, params }) => pgMeta.policies.update(id, params),
+  'policies.remove': (pgMeta, { id }) => pgMeta.policies.remove(id),
+  'publications.create': (pgMeta, { params }) => pgMeta.publications.create(params),
+  'publications.update': (pgMeta, { id, params }) => pgMeta.publications.update(id, params),
+  'publications.remove': (pgMeta, { id }) => pgMeta.publications.remove(id),
+  'replication_slots.create': (pgMeta, { params }) => pgMeta.replicationSlots.create(params),
+  'replication_slots.remove': (pgMeta, { id }) => pgMeta.replicationSlots.remove(id),
+  'roles.create': (pgMeta, { params }) => pgMeta.roles.create(params),
+  'roles.update': (pgMeta, { id, params }) => pgMeta.roles.update(id, params),
+  'roles.remove': (pgMeta, { id }) => pgMeta.roles.remove(id),
+  'roles.grant': (pgMeta, { id, params }) => pgMeta.roles.grant(id, params),
+  'roles.revoke': (pgMeta, { id, params }) => pgMeta.roles.revoke(id, params),
+  'schemas.create': (pgMeta, { params }) => pgMeta.schemas.create(params),
+  'schemas.update': (pgMeta, { id, params }) => pgMeta.schemas.update(id, params),
+  'schemas.remove': (pgMeta, { id, params }) => pgMeta.schemas.remove(id, params),
+  'sequences.create': (pgMeta, { params }) => pgMeta.sequences.create(params),
+  'sequences.update': (pgMeta, { id, params }) => pgMeta.sequences.update(id, params),
+  'sequences.remove': (pgMeta, { id, params }) => pgMeta.sequences.remove(id, params),
+  'sequences.resync': (pgMeta, { id }) => pgMeta.sequences.resync(id),
+  'subscriptions.create': (pgMeta, { params }) => pgMeta.subscriptions.create(params),
+  'subscriptions.update': (pgMeta, { id, params }) => pgMeta.subscriptions.update(id, params),
+  'subscriptions.remove': (pgMeta, { id }) => pgMeta.subscriptions.remove(id),
+  'table_privileges.grant': (pgMeta, { params }) => pgMeta.tablePrivileges.grant(params),
+  'table_privileges.revoke': (pgMeta, { params }) => pgMeta.tablePrivileges.revoke(params),
+  'tables.create': (pgMeta, { params }) => pgMeta.tables.create(params),
+  'tables.update': (pgMeta, { id, params }) => pgMeta.tables.update(id, params),
+  'tables.remove': (pgMeta, { id, params }) => pgMeta.tables.remove(id, params),
+  'tables.duplicate': (pgMeta, { id, params }) => pgMeta.tables.duplicate(id, params),
+  'tables.create_partition': (pgMeta, { id, params }) => pgMeta.tables.createPartition(id, params),
+  'tables.attach_partition': (pgMeta, { id, params }) => pgMeta.tables.attachPartition(id, params),
+  'tables.detach_partition': (pgMeta, { id, params }) => pgMeta.tables.detachPartition(id, params),
+  'tables.create_range_partitions': (pgMeta, { id, params }) =>
+    pgMeta.tables.createRangePartitions(id, params),
+  'triggers.create': (pgMeta, { params }) => pgMeta.triggers.create(params),
+  'triggers.update': (pgMeta, { id, params }) => pgMeta.triggers.update(id, params),
+  'triggers.remove': (pgMeta, { id, params }) => pgMeta.triggers.remove(id, params),
+  'types.create': (pgMeta, { params }) => pgMeta.types.create(params),
+  'types.update': (pgMeta, { id, params }) => pgMeta.types.update(id, params),
+  'types.remove': (pgMeta, { id, params }) => pgMeta.types.remove(id, params),
+  'user_mappings.create': (pgMeta, { params }) => pgMeta.userMappings.create(params),
+  'user_mappings.update': (pgMeta, { id, params }) => pgMeta.userMappings.update(id, params),
+  'user_mappings.remove': (pgMeta, { id }) => pgMeta.userMappings.remove(id),
+  'views.create': (pgMeta, { params }) => pgMeta.views.create(params),
+  'views.update': (pgMeta, { id, params }) => pgMeta.views.update(id, params),
+  'views.remove': (pgMeta, { id, params }) => pgMeta.views.remove(id, params),
+}
+
+// Replaces `{ "$ref": "<index>.<path>" }` objects with the value at `path` in
+// the result of the operation at `index`, e.g. `{ "$ref": "0.id" }` is the id
+// of whatever the first operation created.
+const resolveRefs = (value: unknown, results: unknown[]): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((x) => resolveRefs(x, results))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if ('$ref' in value && typeof value.$ref === 'string') {
+    const [index, ...path] = value.$ref.split('.')
+    if (!(Number(index) < results.length)) {
+      throw new Error(`Invalid reference ${value.$ref}: no preceding operation ${index}`)
+    }
+    return path.reduce((acc: any, key) => {
+      if (acc === null || typeof acc !== 'object' || !(key in acc)) {
+        throw new Error(`Invalid reference ${value.$ref}: cannot find ${key}`)
+      }
+      return acc[key]
+    }, results[Number(index)])
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, x]) => [key, resolveRefs(x, results)]))
+}
+
+const route: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.post(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        body: Type.Object({
+          operations: Type.Array(
+            Type.Object({
+              operation: Type.Union(Object.keys(operations).map((x) => Type.Literal(x))),
+              id: Type.Optional(Type.Unknown()),
+              params: Type.Optional(Type.Unknown()),
+            })
+          ),
+        }),
+        // Errors get the codes of translateErrorToResponseCode().
+        response: {
+          200: Type.Array(Type.Unknown()),
+          400: errorSchema,
+          408: errorSchema,
+          499: errorSchema,
+          503: errorSchema,
+          504: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      // Index of the operation being run, to report which one failed.
+      let index: number | undefined
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.transaction(async (tx) => {
+        const results: unknown[] = []
+        for (const [i, operation] of request.body.operations.entries()) {
+          index = i
+          const { data, error } = await operations[operation.operation](tx, {
+            id: resolveRefs(operation.id, results),
+            params: resolveRefs(operation.params ?? {}, results),
+          })
+          if (error) {
+            throw new Error(error.message)
+          }
+          results.push(data)
+        }
+        return results
+      })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(translateErrorToResponseCode(error))
+        return { error: error.message, index }
+      }
+
+      return data
+    }
+  )
+}
+export default route
@@ -1,12 +1,11 @@
 import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
 import { Type } from '@sinclair/typebox'
-import { PostgresMeta } from '../../lib/index.js'
 import {
   postgresColumnPrivilegesGrantSchema,
   postgresColumnPrivilegesRevokeSchema,
   postgresColumnPrivilegesSchema,
 } from '../../lib/types.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging, translateErrorToResponseCode } from '../utils.js'
 
 const route: FastifyPluginAsyncTypebox = async (fastify) => {
@@ -41,7 +40,7 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       const limit = request.query.limit
       const offset = request.query.offset
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columnPrivileges.list({
         includeSystemSchemas,
         includedSchemas,
@@ -49,7 +48,6 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
         limit,
         offset,
       })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(translateErrorToResponseCode(error, 500))
@@ -79,9 +77,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
     async (request, reply) => {
       const connectionString = request.headers.pg
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columnPrivileges.grant(request.body)
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -114,9 +111,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
     async (request, reply) => {
       const connectionString = request.headers.pg
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columnPrivileges.revoke(request.body)
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
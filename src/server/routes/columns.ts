@@ -1,10 +1,11 @@
-import { PostgresMeta } from '../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging } from '../utils.js'
 import { Type } from '@sinclair/typebox'
 import {
   postgresColumnCreateSchema,
   postgresColumnSchema,
+  postgresColumnTypeChangePreviewSchema,
+  postgresColumnTypeChangeSchema,
   postgresColumnUpdateSchema,
 } from '../../lib/types.js'
 import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
@@ -40,7 +41,7 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       const limit = request.query.limit
       const offset = request.query.offset
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columns.list({
         includeSystemSchemas,
         includedSchemas,
@@ -48,7 +49,6 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
         limit,
         offset,
       })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(500)
@@ -92,14 +92,13 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
         } = request
         const includeSystemSchemas = request.query.include_system_schemas
 
-        const pgMeta: PostgresMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+        const pgMeta = pools.get(connectionString)
         const { data, error } = await pgMeta.columns.list({
           tableId: Number(tableId),
           includeSystemSchemas,
           limit: Number(limit),
           offset: Number(offset),
         })
-        await pgMeta.end()
         if (error) {
           request.log.error({ error, request: extractRequestForLogging(request) })
           reply.code(500)
@@ -114,11 +113,10 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
         } = request
         const ordinalPosition = ordinalPositionWithDot.slice(1)
 
-        const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+        const pgMeta = pools.get(connectionString)
         const { data, error } = await pgMeta.columns.retrieve({
           id: `${tableId}.${ordinalPosition}`,
         })
-        await pgMeta.end()
         if (error) {
           request.log.error({ error, request: extractRequestForLogging(request) })
           reply.code(400)
@@ -152,9 +150,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
     async (request, reply) => {
       const connectionString = request.headers.pg
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columns.create(request.body)
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -188,9 +185,46 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
     async (request, reply) => {
       const connectionString = request.headers.pg
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columns.update(request.params.id, request.body)
-      await pgMeta.end()
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post(
+    '/:id(\\d+\\.\\d+)/preview-type-change',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.String(),
+        }),
+        body: postgresColumnTypeChangeSchema,
+        response: {
+          200: postgresColumnTypeChangePreviewSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.columns.previewTypeChange(
+        request.params.id,
+        request.body
+      )
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -227,9 +261,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       const connectionString = request.headers.pg
       const cascade = request.query.cascade === 'true'
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.columns.remove(request.params.id, { cascade })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
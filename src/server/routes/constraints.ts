@@ -0,0 +1,248 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
+import { Type } from '@sinclair/typebox'
+import {
+  postgresConstraintCreateSchema,
+  postgresConstraintSchema,
+  postgresConstraintUpdateSchema,
+} from '../../lib/types.js'
+import { pools } from '../pools.js'
+import { extractRequestForLogging } from '../utils.js'
+
+const route: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.get(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        querystring: Type.Object({
+          include_system_schemas: Type.Optional(Type.Boolean()),
+          // Note: this only supports comma separated values (e.g., ".../constraints?included_schemas=public,core")
+          included_schemas: Type.Optional(Type.String()),
+          excluded_schemas: Type.Optional(Type.String()),
+          table_id: Type.Optional(Type.Integer()),
+          limit: Type.Optional(Type.Integer()),
+          offset: Type.Optional(Type.Integer()),
+        }),
+        response: {
+          200: Type.Array(postgresConstraintSchema),
+          500: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const includeSystemSchemas = request.query.include_system_schemas
+      const includedSchemas = request.query.included_schemas?.split(',')
+      const excludedSchemas = request.query.excluded_schemas?.split(',')
+      const tableId = request.query.table_id
+      const limit = request.query.limit
+      const offset = request.query.offset
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.list({
+        includeSystemSchemas,
+        includedSchemas,
+        excludedSchemas,
+        tableId,
+        limit,
+        offset,
+      })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(500)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.get(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        response: {
+          200: postgresConstraintSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.retrieve({ id })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        body: postgresConstraintCreateSchema,
+        response: {
+          200: postgresConstraintSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.create(request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.patch(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        body: postgresConstraintUpdateSchema,
+        response: {
+          200: postgresConstraintSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.update(id, request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post(
+    '/:id(\\d+)/validate',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        response: {
+          200: postgresConstraintSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.validate(id)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.delete(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        querystring: Type.Object({
+          cascade: Type.Optional(Type.Boolean()),
+        }),
+        response: {
+          200: postgresConstraintSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+      const cascade = request.query.cascade
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.constraints.remove(id, { cascade })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+}
+export default route
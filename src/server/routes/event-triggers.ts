@@ -0,0 +1,194 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
+import { Type } from '@sinclair/typebox'
+import {
+  postgresEventTriggerCreateSchema,
+  postgresEventTriggerSchema,
+  postgresEventTriggerUpdateSchema,
+} from '../../lib/types.js'
+import { pools } from '../pools.js'
+import { extractRequestForLogging } from '../utils.js'
+
+const route: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.get(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        querystring: Type.Object({
+          limit: Type.Optional(Type.Integer()),
+          offset: Type.Optional(Type.Integer()),
+        }),
+        response: {
+          200: Type.Array(postgresEventTriggerSchema),
+          500: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const limit = request.query.limit
+      const offset = request.query.offset
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.eventTriggers.list({ limit, offset })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(500)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.get(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        response: {
+          200: postgresEventTriggerSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.eventTriggers.retrieve({ id })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        body: postgresEventTriggerCreateSchema,
+        response: {
+          200: postgresEventTriggerSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.eventTriggers.create(request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.patch(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        body: postgresEventTriggerUpdateSchema,
+        response: {
+          200: postgresEventTriggerSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.eventTriggers.update(id, request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.delete(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        querystring: Type.Object({
+          cascade: Type.Optional(Type.Boolean()),
+        }),
+        response: {
+          200: postgresEventTriggerSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+      const cascade = request.query.cascade
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.eventTriggers.remove(id, { cascade })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+}
+export default route
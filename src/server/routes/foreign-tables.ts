@@ -1,8 +1,12 @@
 import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox'
 import { Type } from '@sinclair/typebox'
-import { PostgresMeta } from '../../lib/index.js'
-import { postgresForeignTableSchema } from '../../lib/types.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import {
+  postgresForeignSchemaImportSchema,
+  postgresForeignTableCreateSchema,
+  postgresForeignTableSchema,
+  postgresForeignTableUpdateSchema,
+} from '../../lib/types.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging } from '../utils.js'
 
 const route: FastifyPluginAsyncTypebox = async (fastify) => {
@@ -32,9 +36,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       const offset = request.query.offset
       const includeColumns = request.query.include_columns
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.foreignTables.list({ limit, offset, includeColumns })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(500)
@@ -67,9 +70,8 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       const connectionString = request.headers.pg
       const id = request.params.id
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.foreignTables.retrieve({ id })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(404)
@@ -79,5 +81,148 @@ const route: FastifyPluginAsyncTypebox = async (fastify) => {
       return data
     }
   )
+
+  fastify.post(
+    '/',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        body: postgresForeignTableCreateSchema,
+        response: {
+          200: postgresForeignTableSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.foreignTables.create(request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.patch(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        body: postgresForeignTableUpdateSchema,
+        response: {
+          200: postgresForeignTableSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.foreignTables.update(id, request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.delete(
+    '/:id(\\d+)',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.Integer(),
+        }),
+        querystring: Type.Object({
+          cascade: Type.Optional(Type.Boolean()),
+        }),
+        response: {
+          200: postgresForeignTableSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = request.params.id
+      const cascade = request.query.cascade
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.foreignTables.remove(id, { cascade })
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post(
+    '/import',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        body: postgresForeignSchemaImportSchema,
+        response: {
+          200: Type.Array(postgresForeignTableSchema),
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.foreignTables.importSchema(request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
 }
 export default route
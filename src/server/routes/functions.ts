@@ -1,6 +1,6 @@
 import { FastifyInstance } from 'fastify'
-import { PostgresMeta } from '../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import { PostgresFunctionCall } from '../../lib/types.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging } from '../utils.js'
 
 export default async (fastify: FastifyInstance) => {
@@ -11,6 +11,7 @@ export default async (fastify: FastifyInstance) => {
       // Note: this only supports comma separated values (e.g., ".../functions?included_schemas=public,core")
       included_schemas?: string
       excluded_schemas?: string
+      return_type?: string
       limit?: number
       offset?: number
     }
@@ -19,18 +20,19 @@ export default async (fastify: FastifyInstance) => {
     const includeSystemSchemas = request.query.include_system_schemas === 'true'
     const includedSchemas = request.query.included_schemas?.split(',')
     const excludedSchemas = request.query.excluded_schemas?.split(',')
+    const returnType = request.query.return_type
     const limit = request.query.limit
     const offset = request.query.offset
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.functions.list({
       includeSystemSchemas,
       includedSchemas,
       excludedSchemas,
+      returnType,
       limit,
       offset,
     })
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(500)
@@ -49,9 +51,8 @@ export default async (fastify: FastifyInstance) => {
     const connectionString = request.headers.pg
     const id = Number(request.params.id)
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.functions.retrieve({ id })
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(404)
@@ -67,9 +68,8 @@ export default async (fastify: FastifyInstance) => {
   }>('/', async (request, reply) => {
     const connectionString = request.headers.pg
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.functions.create(request.body as any)
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(400)
@@ -88,9 +88,29 @@ export default async (fastify: FastifyInstance) => {
     const connectionString = request.headers.pg
     const id = Number(request.params.id)
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.functions.update(id, request.body as any)
-    await pgMeta.end()
+    if (error) {
+      request.log.error({ error, request: extractRequestForLogging(request) })
+      reply.code(400)
+      if (error.message.startsWith('Cannot find')) reply.code(404)
+      return { error: error.message }
+    }
+    return data
+  })
+
+  fastify.post<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+    Body: PostgresFunctionCall
+  }>('/:id(\\d+)/call', async (request, reply) => {
+    const connectionString = request.headers.pg
+    const id = Number(request.params.id)
+
+    const pgMeta = pools.get(connectionString)
+    const { data, error } = await pgMeta.functions.call(id, request.body)
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(400)
@@ -109,9 +129,8 @@ export default async (fastify: FastifyInstance) => {
     const connectionString = request.headers.pg
     const id = Number(request.params.id)
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.functions.remove(id)
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(400)
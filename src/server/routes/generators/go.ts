@@ -1,6 +1,5 @@
 import type { FastifyInstance } from 'fastify'
-import { PostgresMeta } from '../../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../../constants.js'
+import { pools } from '../../pools.js'
 import { extractRequestForLogging } from '../../utils.js'
 import { apply as applyGoTemplate } from '../../templates/go.js'
 import { getGeneratorMetadata } from '../../../lib/generators.js'
@@ -19,7 +18,7 @@ export default async (fastify: FastifyInstance) => {
     const includedSchemas =
       request.query.included_schemas?.split(',').map((schema) => schema.trim()) ?? []
 
-    const pgMeta: PostgresMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data: generatorMeta, error: generatorMetaError } = await getGeneratorMetadata(pgMeta, {
       includedSchemas,
       excludedSchemas,
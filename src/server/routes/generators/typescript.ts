@@ -1,6 +1,5 @@
 import type { FastifyInstance } from 'fastify'
-import { PostgresMeta } from '../../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../../constants.js'
+import { pools } from '../../pools.js'
 import { extractRequestForLogging } from '../../utils.js'
 import { apply as applyTypescriptTemplate } from '../../templates/typescript.js'
 import { getGeneratorMetadata } from '../../../lib/generators.js'
@@ -21,7 +20,7 @@ export default async (fastify: FastifyInstance) => {
       request.query.included_schemas?.split(',').map((schema) => schema.trim()) ?? []
     const detectOneToOneRelationships = request.query.detect_one_to_one_relationships === 'true'
 
-    const pgMeta: PostgresMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data: generatorMeta, error: generatorMetaError } = await getGeneratorMetadata(pgMeta, {
       includedSchemas,
       excludedSchemas,
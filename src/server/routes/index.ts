@@ -1,9 +1,14 @@
 import CryptoJS from 'crypto-js'
 import { FastifyInstance } from 'fastify'
+import BatchRoute from './batch.js'
 import ColumnPrivilegesRoute from './column-privileges.js'
 import ColumnRoute from './columns.js'
 import ConfigRoute from './config.js'
+import ConstraintsRoute from './constraints.js'
+import EventTriggersRoute from './event-triggers.js'
 import ExtensionsRoute from './extensions.js'
+import ForeignDataWrappersRoute from './foreign-data-wrappers.js'
+import ForeignServersRoute from './foreign-servers.js'
 import ForeignTablesRoute from './foreign-tables.js'
 import FunctionsRoute from './functions.js'
 import IndexesRoute from './indexes.js'
@@ -11,19 +16,32 @@ import MaterializedViewsRoute from './materialized-views.js'
 import PoliciesRoute from './policies.js'
 import PublicationsRoute from './publications.js'
 import QueryRoute from './query.js'
+import ReplicationSlotsRoute from './replication-slots.js'
 import SchemasRoute from './schemas.js'
+import SequencesRoute from './sequences.js'
 import RolesRoute from './roles.js'
+import SubscriptionsRoute from './subscriptions.js'
 import TablePrivilegesRoute from './table-privileges.js'
 import TablesRoute from './tables.js'
 import TriggersRoute from './triggers.js'
 import TypesRoute from './types.js'
+import UserMappingsRoute from './user-mappings.js'
 import ViewsRoute from './views.js'
 import TypeScriptTypeGenRoute from './generators/typescript.js'
 import GoTypeGenRoute from './generators/go.js'
 import SwiftTypeGenRoute from './generators/swift.js'
 import { PG_CONNECTION, CRYPTO_KEY } from '../constants.js'
 
-export default async (fastify: FastifyInstance) => {
+// Routes that are safe to call in read-only mode despite not being GETs.
+const READ_ONLY_ROUTES = [
+  'POST /query',
+  'POST /query/explain',
+  'POST /query/format',
+  'POST /query/parse',
+  'POST /query/deparse',
+]
+
+export default async (fastify: FastifyInstance, { readOnly = false }: { readOnly?: boolean }) => {
   // Adds a "pg" object to the request if it doesn't exist
   fastify.addHook('onRequest', (request, _reply, done) => {
     // Node converts headers to lowercase
@@ -46,23 +64,47 @@ export default async (fastify: FastifyInstance) => {
     done()
   })
 
+  if (readOnly) {
+    fastify.addHook('onRequest', async (request, reply) => {
+      // Unknown routes get their usual 404.
+      if (request.routeOptions.url === undefined) {
+        return
+      }
+      const route = `${request.method} ${request.routeOptions.url.replace(/(.)\/$/, '$1')}`
+      if (['GET', 'HEAD', 'OPTIONS'].includes(request.method) || READ_ONLY_ROUTES.includes(route)) {
+        return
+      }
+      reply.code(403)
+      return reply.send({ error: `${route} is not allowed in read-only mode` })
+    })
+  }
+
+  fastify.register(BatchRoute, { prefix: '/batch' })
   fastify.register(ColumnPrivilegesRoute, { prefix: '/column-privileges' })
   fastify.register(ColumnRoute, { prefix: '/columns' })
   fastify.register(ConfigRoute, { prefix: '/config' })
+  fastify.register(ConstraintsRoute, { prefix: '/constraints' })
+  fastify.register(EventTriggersRoute, { prefix: '/event-triggers' })
   fastify.register(ExtensionsRoute, { prefix: '/extensions' })
+  fastify.register(ForeignDataWrappersRoute, { prefix: '/foreign-data-wrappers' })
+  fastify.register(ForeignServersRoute, { prefix: '/foreign-servers' })
   fastify.register(ForeignTablesRoute, { prefix: '/foreign-tables' })
   fastify.register(FunctionsRoute, { prefix: '/functions' })
   fastify.register(IndexesRoute, { prefix: '/indexes' })
   fastify.register(MaterializedViewsRoute, { prefix: '/materialized-views' })
   fastify.register(PoliciesRoute, { prefix: '/policies' })
   fastify.register(PublicationsRoute, { prefix: '/publications' })
-  fastify.register(QueryRoute, { prefix: '/query' })
+  fastify.register(QueryRoute, { prefix: '/query', readOnly })
+  fastify.register(ReplicationSlotsRoute, { prefix: '/replication-slots' })
   fastify.register(SchemasRoute, { prefix: '/schemas' })
+  fastify.register(SequencesRoute, { prefix: '/sequences' })
   fastify.register(RolesRoute, { prefix: '/roles' })
+  fastify.register(SubscriptionsRoute, { prefix: '/subscriptions' })
   fastify.register(TablePrivilegesRoute, { prefix: '/table-privileges' })
   fastify.register(TablesRoute, { prefix: '/tables' })
   fastify.register(TriggersRoute, { prefix: '/triggers' })
   fastify.register(TypesRoute, { prefix: '/types' })
+  fastify.register(UserMappingsRoute, { prefix: '/user-mappings' })
   fastify.register(ViewsRoute, { prefix: '/views' })
   fastify.register(TypeScriptTypeGenRoute, { prefix: '/generators/typescript' })
   fastify.register(GoTypeGenRoute, { prefix: '/generators/go' })
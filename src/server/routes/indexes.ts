@@ -1,6 +1,6 @@
 import { FastifyInstance } from 'fastify'
-import { PostgresMeta } from '../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import { PostgresIndexCreate, postgresIndexCreateSchema } from '../../lib/types.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging } from '../utils.js'
 
 export default async (fastify: FastifyInstance) => {
@@ -22,7 +22,7 @@ export default async (fastify: FastifyInstance) => {
     const limit = request.query.limit
     const offset = request.query.offset
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.indexes.list({
       includeSystemSchemas,
       includedSchemas,
@@ -30,7 +30,6 @@ export default async (fastify: FastifyInstance) => {
       limit,
       offset,
     })
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(500)
@@ -49,9 +48,8 @@ export default async (fastify: FastifyInstance) => {
     const connectionString = request.headers.pg
     const id = Number(request.params.id)
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+    const pgMeta = pools.get(connectionString)
     const { data, error } = await pgMeta.indexes.retrieve({ id })
-    await pgMeta.end()
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(404)
@@ -60,4 +58,74 @@ export default async (fastify: FastifyInstance) => {
 
     return data
   })
+
+  fastify.post<{
+    Headers: { pg: string }
+    Body: PostgresIndexCreate
+  }>('/', { schema: { body: postgresIndexCreateSchema } }, async (request, reply) => {
+    const connectionString = request.headers.pg
+
+    const pgMeta = pools.get(connectionString)
+    const { data, error } = await pgMeta.indexes.create(request.body)
+    if (error) {
+      request.log.error({ error, request: extractRequestForLogging(request) })
+      reply.code(400)
+      if (error.message.startsWith('Cannot find')) reply.code(404)
+      return { error: error.message }
+    }
+
+    return data
+  })
+
+  fastify.post<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+    Querystring: {
+      concurrently?: string
+    }
+  }>('/:id(\\d+)/reindex', async (request, reply) => {
+    const connectionString = request.headers.pg
+    const id = Number(request.params.id)
+    const concurrently = request.query.concurrently === 'true'
+
+    const pgMeta = pools.get(connectionString)
+    const { data, error } = await pgMeta.indexes.reindex(id, { concurrently })
+    if (error) {
+      request.log.error({ error, request: extractRequestForLogging(request) })
+      reply.code(400)
+      if (error.message.startsWith('Cannot find')) reply.code(404)
+      return { error: error.message }
+    }
+
+    return data
+  })
+
+  fastify.delete<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+    Querystring: {
+      cascade?: string
+      concurrently?: string
+    }
+  }>('/:id(\\d+)', async (request, reply) => {
+    const connectionString = request.headers.pg
+    const id = Number(request.params.id)
+    const cascade = request.query.cascade === 'true'
+    const concurrently = request.query.concurrently === 'true'
+
+    const pgMeta = pools.get(connectionString)
+    const { data, error } = await pgMeta.indexes.remove(id, { cascade, concurrently })
+    if (error) {
+      request.log.error({ error, request: extractRequestForLogging(request) })
+      reply.code(400)
+      if (error.message.startsWith('Cannot find')) reply.code(404)
+      return { error: error.message }
+    }
+
+    return data
+  })
 }
@@ -1,8 +1,18 @@
 import { FastifyInstance, FastifyRequest } from 'fastify'
-import { PostgresMeta } from '../../lib/index.js'
+import { Readable } from 'node:stream'
 import * as Parser from '../../lib/Parser.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
-import { extractRequestForLogging, translateErrorToResponseCode } from '../utils.js'
+import {
+  PostgresQueryParameter,
+  PostgresQueryStream,
+  PostgresTypeParsing,
+} from '../../lib/types.js'
+import { pools } from '../pools.js'
+import {
+  extractRequestForLogging,
+  getMutatingStatement,
+  getQueryCancellation,
+  translateErrorToResponseCode,
+} from '../utils.js'
 
 const errorOnEmptyQuery = (request: FastifyRequest) => {
   if (!(request.body as any).query) {
@@ -10,28 +20,222 @@ const errorOnEmptyQuery = (request: FastifyRequest) => {
   }
 }
 
-export default async (fastify: FastifyInstance) => {
+const TYPE_PARSING_MODES: PostgresTypeParsing[] = ['default', 'string', 'tagged']
+
+const EXPORT_CONTENT_TYPES = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+}
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES
+
+// The `format` query parameter takes precedence over the Accept header.
+// Returns null for a plain JSON response.
+const getExportFormat = (format: string | undefined, accept = ''): ExportFormat | null => {
+  if (format !== undefined) {
+    if (format === 'json') return null
+    if (format in EXPORT_CONTENT_TYPES) return format as ExportFormat
+    throw new Error(`format must be one of json, ${Object.keys(EXPORT_CONTENT_TYPES).join(', ')}`)
+  }
+  const formats = Object.keys(EXPORT_CONTENT_TYPES) as ExportFormat[]
+  return formats.find((x) => accept.includes(EXPORT_CONTENT_TYPES[x])) ?? null
+}
+
+const toText = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  if (Buffer.isBuffer(value)) return `\\x${value.toString('hex')}`
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const toCsvLine = (values: unknown[], delimiter: string) =>
+  values
+    .map((value) => {
+      const text = toText(value) ?? ''
+      return text.includes(delimiter) || /["\r\n]/.test(text)
+        ? `"${text.replaceAll('"', '""')}"`
+        : text
+    })
+    .join(delimiter)
+
+// Same escapes as COPY's text format, as TSV fields can't hold tabs or newlines.
+const TSV_ESCAPES: Record<string, string> = { '\\': '\\\\', '\t': '\\t', '\n': '\\n', '\r': '\\r' }
+const toTsvLine = (values: unknown[]) =>
+  values
+    .map((value) => (toText(value) ?? '').replace(/[\\\t\n\r]/g, (c) => TSV_ESCAPES[c]))
+    .join('\t')
+
+async function* serializeRows(
+  format: ExportFormat,
+  { fields, rows }: PostgresQueryStream,
+  { header, delimiter }: { header: boolean; delimiter: string }
+): AsyncGenerator<string> {
+  const names = fields.map(({ name }) => name)
+  const toLine =
+    format === 'ndjson'
+      ? (row: unknown[]) =>
+          JSON.stringify(Object.fromEntries(names.map((name, i) => [name, row[i]])))
+      : format === 'csv'
+        ? (row: unknown[]) => toCsvLine(row, delimiter)
+        : toTsvLine
+  if (format !== 'ndjson' && header) {
+    yield `${toLine(names)}\n`
+  }
+  for await (const batch of rows) {
+    yield batch.map((row) => `${toLine(row)}\n`).join('')
+  }
+}
+
+export default async (fastify: FastifyInstance, { readOnly = false }: { readOnly?: boolean }) => {
   fastify.post<{
     Headers: { pg: string }
+    Querystring: {
+      // Return one result per statement, with its command tag and fields
+      result_sets?: string
+      // Stream rows as ndjson, csv or tsv instead, see also the Accept header
+      format?: string
+      // Whether csv and tsv output starts with the column names, defaults to true
+      header?: string
+      // csv only, defaults to ','
+      delimiter?: string
+      type_parsing?: PostgresTypeParsing
+    }
     Body: {
       query: string
+      parameters?: PostgresQueryParameter[]
+      // In milliseconds
+      statement_timeout?: number
     }
   }>('/', async (request, reply) => {
     errorOnEmptyQuery(request)
     const connectionString = request.headers.pg
+    const resultSets = request.query.result_sets === 'true'
+
+    let exportFormat: ExportFormat | null
+    try {
+      exportFormat = getExportFormat(request.query.format, request.headers.accept)
+    } catch (error: any) {
+      reply.code(400)
+      return { error: error.message }
+    }
+    const delimiter = request.query.delimiter ?? ','
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      reply.code(400)
+      return { error: 'delimiter must be a single character other than a quote or newline' }
+    }
+    const typeParsing = request.query.type_parsing
+    if (typeParsing !== undefined && !TYPE_PARSING_MODES.includes(typeParsing)) {
+      reply.code(400)
+      return { error: `type_parsing must be one of ${TYPE_PARSING_MODES.join(', ')}` }
+    }
+
+    if (readOnly) {
+      const operation = getMutatingStatement(request.body.query)
+      if (operation) {
+        reply.code(403)
+        return { error: `${operation} is not allowed in read-only mode` }
+      }
+    }
+
+    // Cancel the statement if the client goes away before we're done.
+    const controller = new AbortController()
+    const onClose = () => {
+      if (!reply.raw.writableEnded) controller.abort()
+    }
+    reply.raw.on('close', onClose)
+
+    if (exportFormat) {
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.stream(request.body.query, request.body.parameters, {
+        readOnly,
+        typeParsing,
+        statementTimeout: request.body.statement_timeout,
+        signal: controller.signal,
+      })
+      if (error) {
+        reply.raw.off('close', onClose)
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(translateErrorToResponseCode(error))
+        const cancellation = getQueryCancellation(error)
+        return {
+          error: error.formattedError ?? error.message,
+          ...error,
+          ...(cancellation && { [cancellation]: true }),
+        }
+      }
+
+      // Rows are only fetched as fast as the client reads them. If it goes
+      // away, the stream gets destroyed, which closes the cursor, and a FETCH
+      // still running is cancelled.
+      const body = serializeRows(exportFormat, data, {
+        header: request.query.header !== 'false',
+        delimiter,
+      })
+      reply.type(EXPORT_CONTENT_TYPES[exportFormat])
+      return reply.send(Readable.from(body))
+    }
 
-    const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
-    const { data, error } = await pgMeta.query(request.body.query)
-    await pgMeta.end()
+    const pgMeta = pools.get(connectionString)
+    const { data, error } = await pgMeta.query(request.body.query, request.body.parameters, {
+      resultSets,
+      statementTimeout: request.body.statement_timeout,
+      signal: controller.signal,
+      readOnly,
+      typeParsing,
+    })
+    reply.raw.off('close', onClose)
     if (error) {
       request.log.error({ error, request: extractRequestForLogging(request) })
       reply.code(translateErrorToResponseCode(error))
-      return { error: error.formattedError ?? error.message, ...error }
+      const cancellation = getQueryCancellation(error)
+      return {
+        error: error.formattedError ?? error.message,
+        ...error,
+        ...(cancellation && { [cancellation]: true }),
+      }
     }
 
     return data || []
   })
 
+  fastify.post<{
+    Headers: { pg: string }
+    Body: {
+      query: string
+      parameters?: PostgresQueryParameter[]
+      analyze?: boolean
+      buffers?: boolean
+      settings?: boolean
+    }
+  }>('/explain', async (request, reply) => {
+    errorOnEmptyQuery(request)
+    const { query, parameters, analyze, buffers, settings } = request.body
+
+    if (readOnly) {
+      const operation = getMutatingStatement(query)
+      if (operation) {
+        reply.code(403)
+        return { error: `${operation} is not allowed in read-only mode` }
+      }
+    }
+
+    const pgMeta = pools.get(request.headers.pg)
+    const { data, error } = await pgMeta.explain(query, {
+      parameters,
+      analyze,
+      buffers,
+      settings,
+      readOnly,
+    })
+    if (error) {
+      request.log.error({ error, request: extractRequestForLogging(request) })
+      reply.code(translateErrorToResponseCode(error))
+      return { error: error.formattedError ?? error.message, ...error }
+    }
+
+    return data
+  })
+
   fastify.post<{
     Headers: { pg: string }
     Body: {
@@ -1,12 +1,16 @@
 import { FastifyInstance } from 'fastify'
-import { PostgresMeta } from '../../lib/index.js'
-import { DEFAULT_POOL_CONFIG } from '../constants.js'
+import { pools } from '../pools.js'
 import { extractRequestForLogging } from '../utils.js'
 import {
   PostgresRoleCreate,
+  PostgresRoleGrant,
+  PostgresRoleRevoke,
   PostgresRoleUpdate,
   postgresRoleSchema,
   postgresRoleCreateSchema,
+  postgresRoleGrantSchema,
+  postgresRoleGraphSchema,
+  postgresRoleRevokeSchema,
   postgresRoleUpdateSchema,
 } from '../../lib/types.js'
 import { Type } from '@sinclair/typebox'
@@ -44,13 +48,12 @@ export default async (fastify: FastifyInstance) => {
       const limit = request.query.limit
       const offset = request.query.offset
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.roles.list({
         includeDefaultRoles,
         limit,
         offset,
       })
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(500)
@@ -88,9 +91,47 @@ export default async (fastify: FastifyInstance) => {
       const connectionString = request.headers.pg
       const id = Number(request.params.id)
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.roles.retrieve({ id })
-      await pgMeta.end()
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.get<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+  }>(
+    '/:id(\\d+)/graph',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.RegExp(/\d+/),
+        }),
+        response: {
+          200: postgresRoleGraphSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = Number(request.params.id)
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.roles.graph(id)
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(404)
@@ -123,9 +164,8 @@ export default async (fastify: FastifyInstance) => {
     async (request, reply) => {
       const connectionString = request.headers.pg
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.roles.create(request.body)
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -168,9 +208,8 @@ export default async (fastify: FastifyInstance) => {
       const connectionString = request.headers.pg
       const id = Number(request.params.id)
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.roles.update(id, request.body)
-      await pgMeta.end()
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -215,9 +254,98 @@ export default async (fastify: FastifyInstance) => {
       const connectionString = request.headers.pg
       const id = Number(request.params.id)
 
-      const pgMeta = new PostgresMeta({ ...DEFAULT_POOL_CONFIG, connectionString })
+      const pgMeta = pools.get(connectionString)
       const { data, error } = await pgMeta.roles.remove(id)
-      await pgMeta.end()
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+    Body: PostgresRoleGrant
+  }>(
+    '/:id(\\d+)/grant',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.RegExp(/\d+/),
+        }),
+        body: postgresRoleGrantSchema,
+        response: {
+          200: postgresRoleSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = Number(request.params.id)
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.roles.grant(id, request.body)
+      if (error) {
+        request.log.error({ error, request: extractRequestForLogging(request) })
+        reply.code(400)
+        if (error.message.startsWith('Cannot find')) reply.code(404)
+        return { error: error.message }
+      }
+
+      return data
+    }
+  )
+
+  fastify.post<{
+    Headers: { pg: string }
+    Params: {
+      id: string
+    }
+    Body: PostgresRoleRevoke
+  }>(
+    '/:id(\\d+)/revoke',
+    {
+      schema: {
+        headers: Type.Object({
+          pg: Type.String(),
+        }),
+        params: Type.Object({
+          id: Type.RegExp(/\d+/),
+        }),
+        body: postgresRoleRevokeSchema,
+        response: {
+          200: postgresRoleSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const connectionString = request.headers.pg
+      const id = Number(request.params.id)
+
+      const pgMeta = pools.get(connectionString)
+      const { data, error } = await pgMeta.roles.revoke(id, request.body)
       if (error) {
         request.log.error({ error, request: extractRequestForLogging(request) })
         reply.code(400)
@@ -3,6 +3,7 @@ import { pino } from 'pino'
 import { PostgresMeta } from '../lib/index.js'
 import { build as buildApp } from './app.js'
 import { build as buildAdminApp } from './admin-app.js'
+import { pools } from './pools.js'
 import {
   DEFAULT_POOL_CONFIG,
   EXPORT_DOCS,
@@ -125,7 +126,8 @@ async function getTypeOutput(): Promise<string | null> {
     columns: columns!,
     relationships: relationships!,
     functions: functions!.filter(
-      ({ return_type }) => !['trigger', 'event_trigger'].includes(return_type)
+      ({ kind, return_type }) =>
+        kind === 'function' && !['trigger', 'event_trigger'].includes(return_type!)
     ),
     types: types!,
     detectOneToOneRelationships: GENERATE_TYPES_DETECT_ONE_TO_ONE_RELATIONSHIPS,
@@ -161,6 +163,7 @@ if (EXPORT_DOCS) {
       app.log.error(err)
     }
     await app.close()
+    await pools.end()
   })
   app.addHook('onClose', async () => {
     closeListeners.uninstall()
@@ -1,5 +1,6 @@
 import pgcs from 'pg-connection-string'
 import { FastifyRequest } from 'fastify'
+import * as Parser from '../lib/Parser.js'
 
 export const extractRequestForLogging = (request: FastifyRequest) => {
   let pg: string = 'unknown'
@@ -21,14 +22,122 @@ export const extractRequestForLogging = (request: FastifyRequest) => {
   }
 }
 
+// Tells apart statements cancelled by statement_timeout from those cancelled
+// with pg_cancel_backend, e.g. because the client went away.
+export function getQueryCancellation(error: {
+  message: string
+  code?: string
+}): 'timed_out' | 'cancelled' | null {
+  if (error.code !== '57014') {
+    return null
+  }
+  return error.message === 'canceling statement due to statement timeout'
+    ? 'timed_out'
+    : 'cancelled'
+}
+
 export function translateErrorToResponseCode(
-  error: { message: string },
+  error: { message: string; code?: string },
   defaultResponseCode = 400
 ): number {
   if (error.message === 'Connection terminated due to connection timeout') {
     return 504
   } else if (error.message === 'sorry, too many clients already') {
     return 503
+  } else if (getQueryCancellation(error) === 'timed_out') {
+    return 408
+  } else if (getQueryCancellation(error) === 'cancelled') {
+    // Non-standard, but widely used for "client closed request".
+    return 499
   }
   return defaultResponseCode
 }
+
+// Statements that change data, schema or privileges, that would end the
+// read-only transaction /query runs in, or that run arbitrary code.
+const MUTATING_STATEMENT =
+  /^(Insert|Update|Delete|Merge|Truncate|Create\w*|Alter\w*|Drop\w*|Grant|GrantRole|Rename|Comment|SecLabel|Define|Index|View|CompositeType|Rule|RefreshMatView|Reindex|Cluster|Vacuum|Lock|Transaction|ImportForeignSchema|ReassignOwned|Do|Call)Stmt$/
+// Settings that could make the transaction read-write again, as named by the
+// parser, e.g. `SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE`.
+const READ_ONLY_SETTINGS = [
+  'transaction_read_only',
+  'default_transaction_read_only',
+  'SESSION CHARACTERISTICS',
+  'TRANSACTION',
+]
+const STATEMENT_NAMES: Record<string, string> = {
+  CreateStmt: 'CREATE TABLE',
+  DefineStmt: 'CREATE',
+  IndexStmt: 'CREATE INDEX',
+  ViewStmt: 'CREATE VIEW',
+  CompositeTypeStmt: 'CREATE TYPE',
+  RuleStmt: 'CREATE RULE',
+  RenameStmt: 'RENAME',
+  SecLabelStmt: 'SECURITY LABEL',
+  RefreshMatViewStmt: 'REFRESH MATERIALIZED VIEW',
+}
+
+const describeStatement = (type: string, stmt: any): string => {
+  if (type === 'GrantStmt' || type === 'GrantRoleStmt') {
+    return stmt.is_grant ? 'GRANT' : 'REVOKE'
+  }
+  if (type === 'TransactionStmt') {
+    return stmt.kind.replace(/^TRANS_STMT_/, '').replaceAll('_', ' ')
+  }
+  return (
+    STATEMENT_NAMES[type] ??
+    type
+      .replace(/Stmt$/, '')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toUpperCase()
+  )
+}
+
+/**
+ * Returns the name of the first obviously mutating statement in `sql`, e.g.
+ * "INSERT", including those nested in CTEs or EXPLAIN, or null if there is
+ * none. Anything this misses is still refused by a read-only transaction,
+ * this only fails early with a clear message.
+ */
+export function getMutatingStatement(sql: string): string | null {
+  const { data, error } = Parser.Parse(sql)
+  if (error) {
+    // Leave it to Postgres to report syntax errors.
+    return null
+  }
+  const find = (node: unknown): string | null => {
+    if (node === null || typeof node !== 'object') {
+      return null
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (MUTATING_STATEMENT.test(key)) {
+        return describeStatement(key, value)
+      }
+      if (key === 'VariableSetStmt' && READ_ONLY_SETTINGS.includes((value as any).name)) {
+        const { kind, name } = value as any
+        return `${kind.startsWith('VAR_RESET') ? 'RESET' : 'SET'} ${name}`
+      }
+      if (key === 'SelectStmt' && (value as any).intoClause) {
+        return 'SELECT INTO'
+      }
+      // Only COPY ... TO STDOUT is safe: writing to a server file or program
+      // isn't stopped by a read-only transaction.
+      if (key === 'CopyStmt') {
+        const { is_from, is_program, filename } = value as any
+        if (is_from) {
+          return 'COPY FROM'
+        } else if (is_program) {
+          return 'COPY TO PROGRAM'
+        } else if (filename) {
+          return 'COPY TO'
+        }
+      }
+      const found = find(value)
+      if (found) {
+        return found
+      }
+    }
+    return null
+  }
+  return find(data)
+}
@@ -15,10 +15,21 @@ import './lib/triggers'
 import './lib/types'
 import './lib/version'
 import './lib/views'
+import './server/batch'
 import './server/column-privileges'
+import './server/constraints'
+import './server/event-triggers'
+import './server/foreign-servers'
+import './server/foreign-tables'
 import './server/indexes'
 import './server/materialized-views'
+import './server/pools'
 import './server/query'
+import './server/read-only'
+import './server/sequences'
 import './server/ssl'
+import './server/subscriptions'
 import './server/table-privileges'
+import './server/tables'
 import './server/typegen'
+import './server/types'
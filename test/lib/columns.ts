@@ -11,11 +11,14 @@ test('list', async () => {
     `
     {
       "check": null,
+      "collation": null,
       "comment": null,
+      "compression": null,
       "data_type": "bigint",
       "default_value": null,
       "enums": [],
       "format": "int8",
+      "generation_expression": null,
       "id": StringMatching /\\^\\\\d\\+\\\\\\.3\\$/,
       "identity_generation": null,
       "is_generated": false,
@@ -26,6 +29,8 @@ test('list', async () => {
       "name": "user-id",
       "ordinal_position": 3,
       "schema": "public",
+      "statistics_target": null,
+      "storage": "PLAIN",
       "table": "todos",
       "table_id": Any<Number>,
     }
@@ -57,11 +62,14 @@ test('list from a single table', async () => {
       "data": [
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "text",
           "default_value": null,
           "enums": [],
           "format": "text",
+          "generation_expression": null,
           "id": StringMatching /\\^\\\\d\\+\\\\\\.\\\\d\\+\\$/,
           "identity_generation": null,
           "is_generated": false,
@@ -72,16 +80,21 @@ test('list from a single table', async () => {
           "name": "c1",
           "ordinal_position": 1,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "EXTENDED",
           "table": "t",
           "table_id": Any<Number>,
         },
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "text",
           "default_value": null,
           "enums": [],
           "format": "text",
+          "generation_expression": null,
           "id": StringMatching /\\^\\\\d\\+\\\\\\.\\\\d\\+\\$/,
           "identity_generation": null,
           "is_generated": false,
@@ -92,6 +105,8 @@ test('list from a single table', async () => {
           "name": "c2",
           "ordinal_position": 2,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "EXTENDED",
           "table": "t",
           "table_id": Any<Number>,
         },
@@ -155,11 +170,14 @@ test('retrieve, create, update, delete', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": "foo",
+        "compression": null,
         "data_type": "smallint",
         "default_value": "'42'::smallint",
         "enums": [],
         "format": "int2",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -170,6 +188,8 @@ test('retrieve, create, update, delete', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -186,11 +206,14 @@ test('retrieve, create, update, delete', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": "foo",
+        "compression": null,
         "data_type": "smallint",
         "default_value": "'42'::smallint",
         "enums": [],
         "format": "int2",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -201,6 +224,8 @@ test('retrieve, create, update, delete', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -225,11 +250,14 @@ test('retrieve, create, update, delete', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": "bar",
+        "compression": null,
         "data_type": "integer",
         "default_value": null,
         "enums": [],
         "format": "int4",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": "ALWAYS",
         "is_generated": false,
@@ -240,6 +268,8 @@ test('retrieve, create, update, delete', async () => {
         "name": "c1",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -256,11 +286,14 @@ test('retrieve, create, update, delete', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": "bar",
+        "compression": null,
         "data_type": "integer",
         "default_value": null,
         "enums": [],
         "format": "int4",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": "ALWAYS",
         "is_generated": false,
@@ -271,6 +304,8 @@ test('retrieve, create, update, delete', async () => {
         "name": "c1",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -301,13 +336,16 @@ test('enum column with quoted name', async () => {
     `
     {
       "check": null,
+      "collation": null,
       "comment": null,
+      "compression": null,
       "data_type": "USER-DEFINED",
       "default_value": null,
       "enums": [
         "v",
       ],
       "format": "T",
+      "generation_expression": null,
       "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
       "identity_generation": null,
       "is_generated": false,
@@ -318,6 +356,8 @@ test('enum column with quoted name', async () => {
       "name": "c",
       "ordinal_position": 1,
       "schema": "public",
+      "statistics_target": null,
+      "storage": "PLAIN",
       "table": "t",
       "table_id": Any<Number>,
     }
@@ -409,11 +449,14 @@ test('array column', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "ARRAY",
         "default_value": null,
         "enums": [],
         "format": "_int2",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -424,6 +467,8 @@ test('array column', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "EXTENDED",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -456,11 +501,14 @@ test('column with default value', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "timestamp with time zone",
         "default_value": "now()",
         "enums": [],
         "format": "timestamptz",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -471,6 +519,8 @@ test('column with default value', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -534,11 +584,14 @@ test('update with name unchanged', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "smallint",
         "default_value": null,
         "enums": [],
         "format": "int2",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -549,6 +602,8 @@ test('update with name unchanged', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -582,11 +637,14 @@ test('update with array types', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "ARRAY",
         "default_value": null,
         "enums": [],
         "format": "_text",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -597,6 +655,8 @@ test('update with array types', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "EXTENDED",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -630,11 +690,14 @@ test('update with incompatible types', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "integer",
         "default_value": null,
         "enums": [],
         "format": "int4",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -645,6 +708,8 @@ test('update with incompatible types', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -677,11 +742,14 @@ test('update is_unique', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "text",
         "default_value": null,
         "enums": [],
         "format": "text",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -692,6 +760,8 @@ test('update is_unique', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "EXTENDED",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -711,11 +781,14 @@ test('update is_unique', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "text",
         "default_value": null,
         "enums": [],
         "format": "text",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -726,6 +799,8 @@ test('update is_unique', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "EXTENDED",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -760,11 +835,14 @@ test('alter column to type with uppercase', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "USER-DEFINED",
         "default_value": null,
         "enums": [],
         "format": "T",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -775,6 +853,8 @@ test('alter column to type with uppercase', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -807,13 +887,16 @@ test('enums are populated in enum array columns', async () => {
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "ARRAY",
         "default_value": null,
         "enums": [
           "a",
         ],
         "format": "_test_enum",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -824,6 +907,8 @@ test('enums are populated in enum array columns', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "EXTENDED",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -861,11 +946,14 @@ create table public.t (
     {
       "data": {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "bigint",
         "default_value": null,
         "enums": [],
         "format": "int8",
+        "generation_expression": null,
         "id": StringMatching /\\^\\\\d\\+\\\\\\.1\\$/,
         "identity_generation": null,
         "is_generated": false,
@@ -876,6 +964,8 @@ create table public.t (
         "name": "id",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
         "table_id": Any<Number>,
       },
@@ -912,11 +1002,14 @@ test('column with multiple checks', async () => {
     [
       {
         "check": "c <> 0",
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "bigint",
         "default_value": null,
         "enums": [],
         "format": "int8",
+        "generation_expression": null,
         "identity_generation": null,
         "is_generated": false,
         "is_identity": false,
@@ -926,6 +1019,8 @@ test('column with multiple checks', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
       },
     ]
@@ -945,11 +1040,14 @@ test('column with multiple unique constraints', async () => {
     [
       {
         "check": null,
+        "collation": null,
         "comment": null,
+        "compression": null,
         "data_type": "bigint",
         "default_value": null,
         "enums": [],
         "format": "int8",
+        "generation_expression": null,
         "identity_generation": null,
         "is_generated": false,
         "is_identity": false,
@@ -959,6 +1057,8 @@ test('column with multiple unique constraints', async () => {
         "name": "c",
         "ordinal_position": 1,
         "schema": "public",
+        "statistics_target": null,
+        "storage": "PLAIN",
         "table": "t",
       },
     ]
@@ -997,11 +1097,14 @@ test('column with fully-qualified type', async () => {
   expect(column).toMatchInlineSnapshot(`
     {
       "check": null,
+      "collation": null,
       "comment": null,
+      "compression": null,
       "data_type": "USER-DEFINED",
       "default_value": null,
       "enums": [],
       "format": "my_type",
+      "generation_expression": null,
       "identity_generation": null,
       "is_generated": false,
       "is_identity": false,
@@ -1011,9 +1114,155 @@ test('column with fully-qualified type', async () => {
       "name": "c",
       "ordinal_position": 1,
       "schema": "public",
+      "statistics_target": null,
+      "storage": "PLAIN",
       "table": "t",
     }
   `)
 
   await pgMeta.query(`drop table public.t; drop schema s cascade;`)
 })
+
+test('generated column with collation, storage, compression and statistics', async () => {
+  await pgMeta.query(`create table public.t(c1 text)`)
+  const table = await pgMeta.tables.retrieve({ schema: 'public', name: 't' })
+
+  let res = await pgMeta.columns.create({
+    table_id: table.data!.id,
+    name: 'c2',
+    type: 'text',
+    generation_expression: `lower(c1)`,
+    collation: 'C',
+    storage: 'MAIN',
+    compression: 'pglz',
+    statistics_target: 500,
+  })
+  expect(res.error).toBeNull()
+  expect(res.data).toMatchObject({
+    default_value: 'lower(c1)',
+    is_generated: true,
+    generation_expression: 'lower(c1)',
+    collation: 'C',
+    storage: 'MAIN',
+    compression: 'pglz',
+    statistics_target: 500,
+  })
+
+  res = await pgMeta.columns.update(res.data!.id, {
+    collation: null,
+    storage: 'EXTENDED',
+    compression: null,
+    statistics_target: null,
+    drop_generation_expression: true,
+  })
+  expect(res.error).toBeNull()
+  expect(res.data).toMatchObject({
+    default_value: null,
+    is_generated: false,
+    generation_expression: null,
+    collation: null,
+    storage: 'EXTENDED',
+    compression: null,
+    statistics_target: null,
+  })
+
+  res = await pgMeta.columns.create({
+    table_id: table.data!.id,
+    name: 'c3',
+    type: 'text',
+    generation_expression: `upper(c1)`,
+    default_value: 'foo',
+  })
+  expect(res).toMatchObject({
+    data: null,
+    error: { message: 'Generated columns cannot be identity or have a default value' },
+  })
+
+  await pgMeta.query(`drop table t`)
+})
+
+test('preview type change and update with using', async () => {
+  await pgMeta.query(`
+create table public.t(c varchar(5));
+insert into public.t values ('1'), ('22'), ('abc'), (null), ('');`)
+  const { data: column } = await pgMeta.columns.retrieve({
+    schema: 'public',
+    table: 't',
+    name: 'c',
+  })
+
+  let res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'int4' })
+  expect(res).toMatchInlineSnapshot(`
+    {
+      "data": {
+        "checked_rows": 5,
+        "examples": [
+          {
+            "error": "invalid input syntax for type integer: \\"abc\\"",
+            "value": "abc",
+          },
+          {
+            "error": "invalid input syntax for type integer: \\"\\"",
+            "value": "",
+          },
+        ],
+        "failing_rows": 2,
+        "from_type": "character varying(5)",
+        "may_require_rewrite": true,
+        "to_type": "integer",
+        "total_rows": 5,
+        "truncated": false,
+      },
+      "error": null,
+    }
+  `)
+
+  res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'varchar(10)' })
+  expect(res.data).toMatchObject({ failing_rows: 0, may_require_rewrite: false })
+  res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'text' })
+  expect(res.data).toMatchObject({ failing_rows: 0, may_require_rewrite: false })
+  // Like in update(), explicit casts truncate instead of failing.
+  res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'varchar(2)' })
+  expect(res.data).toMatchObject({ failing_rows: 0, may_require_rewrite: true })
+
+  const using = `nullif(regexp_replace(c, '\\D', '', 'g'), '')::int4`
+  res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'int4', using })
+  expect(res.data).toMatchObject({ failing_rows: 0, examples: [], may_require_rewrite: true })
+  // Dollar quotes in USING don't end the check early.
+  res = await pgMeta.columns.previewTypeChange(column!.id, {
+    type: 'int4',
+    using: `nullif(regexp_replace(c, $$\\D$$, '', 'g'), '')::int4`,
+  })
+  expect(res.data).toMatchObject({ checked_rows: 5, failing_rows: 0, may_require_rewrite: true })
+
+  let updateRes = await pgMeta.columns.update(column!.id, { type: 'int4' })
+  expect(updateRes.error?.message).toMatch('invalid input syntax for type integer: "abc"')
+  updateRes = await pgMeta.columns.update(column!.id, { type: 'int4', using })
+  expect(updateRes.data).toMatchObject({ format: 'int4' })
+  const { data } = await pgMeta.query(`select c from public.t order by c`)
+  expect(data).toMatchObject([{ c: 1 }, { c: 22 }, { c: null }, { c: null }, { c: null }])
+
+  await pgMeta.query(`drop table public.t`)
+})
+
+test('preview type change of a large table', async () => {
+  await pgMeta.query(`
+create table public.t(c text);
+insert into public.t select 'x' from generate_series(1, 10005);`)
+  const { data: column } = await pgMeta.columns.retrieve({
+    schema: 'public',
+    table: 't',
+    name: 'c',
+  })
+
+  // Only the first rows are checked one by one.
+  const res = await pgMeta.columns.previewTypeChange(column!.id, { type: 'int4' })
+  expect(res.data).toMatchObject({
+    total_rows: 10005,
+    checked_rows: 10000,
+    truncated: true,
+    failing_rows: 10000,
+  })
+
+  await pgMeta.query(`drop table public.t`)
+})
@@ -4,7 +4,7 @@ import { pgMeta } from './utils'
 const cleanNondetFromResponse = <T>(x: T) => {
   const { data, ...rest } = x as any
 
-  const cleanNondetFromData = ({ id, columns, ...rest }: any) => {
+  const cleanNondetFromData = ({ id, server_id, columns, ...rest }: any) => {
     const cleaned = rest
     if (columns) {
       cleaned.columns = columns.map(({ id, table_id, ...rest }: any) => rest)
@@ -26,11 +26,14 @@ test('list', async () => {
         "columns": [
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -40,15 +43,20 @@ test('list', async () => {
             "name": "id",
             "ordinal_position": 1,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "foreign_table",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "text",
             "default_value": null,
             "enums": [],
             "format": "text",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -58,11 +66,15 @@ test('list', async () => {
             "name": "name",
             "ordinal_position": 2,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "EXTENDED",
             "table": "foreign_table",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "USER-DEFINED",
             "default_value": null,
             "enums": [
@@ -70,6 +82,7 @@ test('list', async () => {
               "INACTIVE",
             ],
             "format": "user_status",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -79,12 +92,19 @@ test('list', async () => {
             "name": "status",
             "ordinal_position": 3,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "foreign_table",
           },
         ],
         "comment": null,
         "name": "foreign_table",
+        "options": {
+          "schema_name": "public",
+          "table_name": "users",
+        },
         "schema": "public",
+        "server": "foreign_server",
       }
     `)
 })
@@ -96,7 +116,12 @@ test('list without columns', async () => {
     {
       "comment": null,
       "name": "foreign_table",
+      "options": {
+        "schema_name": "public",
+        "table_name": "users",
+      },
       "schema": "public",
+      "server": "foreign_server",
     }
   `)
 })
@@ -109,11 +134,14 @@ test('retrieve', async () => {
         "columns": [
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -123,15 +151,20 @@ test('retrieve', async () => {
             "name": "id",
             "ordinal_position": 1,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "foreign_table",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "text",
             "default_value": null,
             "enums": [],
             "format": "text",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -141,11 +174,15 @@ test('retrieve', async () => {
             "name": "name",
             "ordinal_position": 2,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "EXTENDED",
             "table": "foreign_table",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "USER-DEFINED",
             "default_value": null,
             "enums": [
@@ -153,6 +190,7 @@ test('retrieve', async () => {
               "INACTIVE",
             ],
             "format": "user_status",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -162,12 +200,19 @@ test('retrieve', async () => {
             "name": "status",
             "ordinal_position": 3,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "foreign_table",
           },
         ],
         "comment": null,
         "name": "foreign_table",
+        "options": {
+          "schema_name": "public",
+          "table_name": "users",
+        },
         "schema": "public",
+        "server": "foreign_server",
       },
       "error": null,
     }
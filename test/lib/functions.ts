@@ -23,6 +23,7 @@ test('list', async () => {
       ],
       "argument_types": "integer, integer",
       "behavior": "IMMUTABLE",
+      "comment": null,
       "complete_statement": "CREATE OR REPLACE FUNCTION public.add(integer, integer)
      RETURNS integer
      LANGUAGE sql
@@ -30,15 +31,22 @@ test('list', async () => {
     AS $function$select $1 + $2;$function$
     ",
       "config_params": null,
+      "cost": 100,
       "definition": "select $1 + $2;",
       "id": Any<Number>,
       "identity_argument_types": "integer, integer",
+      "is_leakproof": false,
       "is_set_returning_function": false,
+      "is_strict": true,
+      "kind": "function",
       "language": "sql",
       "name": "add",
+      "owner": "postgres",
+      "parallel": "UNSAFE",
       "return_type": "integer",
       "return_type_id": 23,
       "return_type_relation_id": null,
+      "rows": null,
       "schema": "public",
       "security_definer": false,
     }
@@ -118,6 +126,7 @@ test('retrieve, create, update, delete', async () => {
         ],
         "argument_types": "a smallint, b smallint",
         "behavior": "STABLE",
+        "comment": null,
         "complete_statement": "CREATE OR REPLACE FUNCTION public.test_func(a smallint, b smallint)
      RETURNS integer
      LANGUAGE sql
@@ -130,15 +139,22 @@ test('retrieve, create, update, delete', async () => {
           "role": "postgres",
           "search_path": "hooks, auth",
         },
+        "cost": 100,
         "definition": "select a + b",
         "id": Any<Number>,
         "identity_argument_types": "a smallint, b smallint",
+        "is_leakproof": false,
         "is_set_returning_function": false,
+        "is_strict": false,
+        "kind": "function",
         "language": "sql",
         "name": "test_func",
+        "owner": "postgres",
+        "parallel": "UNSAFE",
         "return_type": "integer",
         "return_type_id": 23,
         "return_type_relation_id": null,
+        "rows": null,
         "schema": "public",
         "security_definer": true,
       },
@@ -168,6 +184,7 @@ test('retrieve, create, update, delete', async () => {
         ],
         "argument_types": "a smallint, b smallint",
         "behavior": "STABLE",
+        "comment": null,
         "complete_statement": "CREATE OR REPLACE FUNCTION public.test_func(a smallint, b smallint)
      RETURNS integer
      LANGUAGE sql
@@ -180,15 +197,22 @@ test('retrieve, create, update, delete', async () => {
           "role": "postgres",
           "search_path": "hooks, auth",
         },
+        "cost": 100,
         "definition": "select a + b",
         "id": Any<Number>,
         "identity_argument_types": "a smallint, b smallint",
+        "is_leakproof": false,
         "is_set_returning_function": false,
+        "is_strict": false,
+        "kind": "function",
         "language": "sql",
         "name": "test_func",
+        "owner": "postgres",
+        "parallel": "UNSAFE",
         "return_type": "integer",
         "return_type_id": 23,
         "return_type_relation_id": null,
+        "rows": null,
         "schema": "public",
         "security_definer": true,
       },
@@ -222,6 +246,7 @@ test('retrieve, create, update, delete', async () => {
         ],
         "argument_types": "a smallint, b smallint",
         "behavior": "STABLE",
+        "comment": null,
         "complete_statement": "CREATE OR REPLACE FUNCTION test_schema.test_func_renamed(a smallint, b smallint)
      RETURNS integer
      LANGUAGE sql
@@ -234,15 +259,22 @@ test('retrieve, create, update, delete', async () => {
           "role": "postgres",
           "search_path": "hooks, auth",
         },
+        "cost": 100,
         "definition": "select b - a",
         "id": Any<Number>,
         "identity_argument_types": "a smallint, b smallint",
+        "is_leakproof": false,
         "is_set_returning_function": false,
+        "is_strict": false,
+        "kind": "function",
         "language": "sql",
         "name": "test_func_renamed",
+        "owner": "postgres",
+        "parallel": "UNSAFE",
         "return_type": "integer",
         "return_type_id": 23,
         "return_type_relation_id": null,
+        "rows": null,
         "schema": "test_schema",
         "security_definer": true,
       },
@@ -272,6 +304,7 @@ test('retrieve, create, update, delete', async () => {
         ],
         "argument_types": "a smallint, b smallint",
         "behavior": "STABLE",
+        "comment": null,
         "complete_statement": "CREATE OR REPLACE FUNCTION test_schema.test_func_renamed(a smallint, b smallint)
      RETURNS integer
      LANGUAGE sql
@@ -284,15 +317,22 @@ test('retrieve, create, update, delete', async () => {
           "role": "postgres",
           "search_path": "hooks, auth",
         },
+        "cost": 100,
         "definition": "select b - a",
         "id": Any<Number>,
         "identity_argument_types": "a smallint, b smallint",
+        "is_leakproof": false,
         "is_set_returning_function": false,
+        "is_strict": false,
+        "kind": "function",
         "language": "sql",
         "name": "test_func_renamed",
+        "owner": "postgres",
+        "parallel": "UNSAFE",
         "return_type": "integer",
         "return_type_id": 23,
         "return_type_relation_id": null,
+        "rows": null,
         "schema": "test_schema",
         "security_definer": true,
       },
@@ -328,6 +368,7 @@ test('retrieve set-returning function', async () => {
       "args": [],
       "argument_types": "",
       "behavior": "STABLE",
+      "comment": null,
       "complete_statement": "CREATE OR REPLACE FUNCTION public.function_returning_set_of_rows()
      RETURNS SETOF users
      LANGUAGE sql
@@ -337,20 +378,132 @@ test('retrieve set-returning function', async () => {
     $function$
     ",
       "config_params": null,
+      "cost": 100,
       "definition": "
       select * from public.users;
     ",
       "id": Any<Number>,
       "identity_argument_types": "",
+      "is_leakproof": false,
       "is_set_returning_function": true,
+      "is_strict": false,
+      "kind": "function",
       "language": "sql",
       "name": "function_returning_set_of_rows",
+      "owner": "postgres",
+      "parallel": "UNSAFE",
       "return_type": "SETOF users",
       "return_type_id": Any<Number>,
       "return_type_relation_id": Any<Number>,
+      "rows": 1000,
       "schema": "public",
       "security_definer": false,
     }
   `
   )
 })
+
+test('create, update function attributes', async () => {
+  let res = await pgMeta.functions.create({
+    name: 'test_func_attributes',
+    args: ['a int'],
+    definition: 'select a * 2',
+    return_type: 'int',
+    behavior: 'IMMUTABLE',
+    is_strict: true,
+    parallel: 'SAFE',
+    cost: 5,
+    config_params: { search_path: 'public' },
+  })
+  expect(res.data).toMatchObject({
+    behavior: 'IMMUTABLE',
+    is_strict: true,
+    parallel: 'SAFE',
+    cost: 5,
+    rows: null,
+    config_params: { search_path: 'public' },
+  })
+  const { id } = res.data!
+
+  res = await pgMeta.functions.update(id, {
+    behavior: 'STABLE',
+    security_definer: true,
+    parallel: 'RESTRICTED',
+    cost: 10,
+    config_params: { statement_timeout: '1000', search_path: 'FROM CURRENT' },
+    comment: 'foo',
+  })
+  expect(res.data!.config_params).toHaveProperty('search_path')
+  expect(res.data).toMatchObject({
+    id,
+    behavior: 'STABLE',
+    security_definer: true,
+    is_strict: true,
+    parallel: 'RESTRICTED',
+    cost: 10,
+    config_params: { statement_timeout: '1000' },
+    owner: 'postgres',
+    comment: 'foo',
+  })
+
+  // Replacing the definition keeps the other attributes.
+  res = await pgMeta.functions.update(id, { definition: 'select a * 3', is_strict: false })
+  expect(res.data).toMatchObject({
+    id,
+    definition: 'select a * 3',
+    behavior: 'STABLE',
+    security_definer: true,
+    is_strict: false,
+    parallel: 'RESTRICTED',
+    cost: 10,
+    config_params: { statement_timeout: '1000' },
+    comment: 'foo',
+  })
+
+  await pgMeta.functions.remove(id)
+})
+
+test('create, call, replace, delete procedure', async () => {
+  let res = await pgMeta.functions.create({
+    name: 'test_procedure',
+    kind: 'procedure',
+    args: ['inout a int', 'b int'],
+    definition: 'begin a := a + b; commit; end',
+    language: 'plpgsql',
+  })
+  expect(res.data).toMatchObject({
+    schema: 'public',
+    name: 'test_procedure',
+    kind: 'procedure',
+    return_type: null,
+    identity_argument_types: 'INOUT a integer, b integer',
+  })
+  const { id } = res.data!
+
+  let callRes = await pgMeta.functions.call(id, { args: [1, 2] })
+  expect(callRes).toMatchInlineSnapshot(`
+    {
+      "data": {
+        "a": 3,
+      },
+      "error": null,
+    }
+  `)
+
+  res = await pgMeta.functions.update(id, { definition: 'begin a := a * b; end' })
+  expect(res.data).toMatchObject({ id, kind: 'procedure', definition: 'begin a := a * b; end' })
+  callRes = await pgMeta.functions.call(id, { args: { a: 3, b: 4 } })
+  expect(callRes.data).toMatchObject({ a: 12 })
+
+  res = await pgMeta.functions.remove(id)
+  expect(res.error).toBeNull()
+  res = await pgMeta.functions.retrieve({ id })
+  expect(res.error?.message).toMatch(/^Cannot find a function with ID \d+$/)
+})
+
+test('list aggregates', async () => {
+  const res = await pgMeta.functions.list({ includeSystemSchemas: true })
+  expect(
+    res.data?.find(({ schema, name }) => schema === 'pg_catalog' && name === 'count')
+  ).toMatchObject({ kind: 'aggregate', language: 'internal' })
+})
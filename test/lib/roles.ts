@@ -7,7 +7,12 @@ test('list', async () => {
   let role = res.data?.find(({ name }) => name === 'postgres')
 
   expect(role).toMatchInlineSnapshot(
-    { active_connections: expect.any(Number), id: expect.any(Number) },
+    {
+      active_connections: expect.any(Number),
+      id: expect.any(Number),
+      inherited_member_of: expect.any(Array),
+      member_of: expect.any(Array),
+    },
     `
     {
       "active_connections": Any<Number>,
@@ -19,8 +24,10 @@ test('list', async () => {
       "connection_limit": 100,
       "id": Any<Number>,
       "inherit_role": true,
+      "inherited_member_of": Any<Array>,
       "is_replication_role": true,
       "is_superuser": true,
+      "member_of": Any<Array>,
       "name": "postgres",
       "password": "********",
       "valid_until": null,
@@ -56,8 +63,32 @@ test('list w/ default roles', async () => {
       "connection_limit": 100,
       "id": Any<Number>,
       "inherit_role": true,
+      "inherited_member_of": [],
       "is_replication_role": false,
       "is_superuser": false,
+      "member_of": [
+        {
+          "admin_option": false,
+          "id": 3374,
+          "inherit_option": null,
+          "name": "pg_read_all_settings",
+          "set_option": null,
+        },
+        {
+          "admin_option": false,
+          "id": 3375,
+          "inherit_option": null,
+          "name": "pg_read_all_stats",
+          "set_option": null,
+        },
+        {
+          "admin_option": false,
+          "id": 3377,
+          "inherit_option": null,
+          "name": "pg_stat_scan_tables",
+          "set_option": null,
+        },
+      ],
       "name": "pg_monitor",
       "password": "********",
       "valid_until": null,
@@ -96,8 +127,10 @@ test('retrieve, create, update, delete', async () => {
         "connection_limit": 100,
         "id": Any<Number>,
         "inherit_role": false,
+        "inherited_member_of": [],
         "is_replication_role": true,
         "is_superuser": true,
+        "member_of": [],
         "name": "r",
         "password": "********",
         "valid_until": "2020-01-01 00:00:00+00",
@@ -123,8 +156,10 @@ test('retrieve, create, update, delete', async () => {
         "connection_limit": 100,
         "id": Any<Number>,
         "inherit_role": false,
+        "inherited_member_of": [],
         "is_replication_role": true,
         "is_superuser": true,
+        "member_of": [],
         "name": "r",
         "password": "********",
         "valid_until": "2020-01-01 00:00:00+00",
@@ -178,8 +213,10 @@ test('retrieve, create, update, delete', async () => {
         "connection_limit": 100,
         "id": Any<Number>,
         "inherit_role": false,
+        "inherited_member_of": [],
         "is_replication_role": true,
         "is_superuser": true,
+        "member_of": [],
         "name": "rr",
         "password": "********",
         "valid_until": "2020-01-01 00:00:00+00",
@@ -213,8 +250,10 @@ test('retrieve, create, update, delete', async () => {
         "connection_limit": 100,
         "id": Any<Number>,
         "inherit_role": false,
+        "inherited_member_of": [],
         "is_replication_role": true,
         "is_superuser": true,
+        "member_of": [],
         "name": "rr",
         "password": "********",
         "valid_until": "2020-01-01 00:00:00+00",
@@ -240,8 +279,10 @@ test('retrieve, create, update, delete', async () => {
         "connection_limit": 100,
         "id": Any<Number>,
         "inherit_role": false,
+        "inherited_member_of": [],
         "is_replication_role": true,
         "is_superuser": true,
+        "member_of": [],
         "name": "rr",
         "password": "********",
         "valid_until": "2020-01-01 00:00:00+00",
@@ -258,3 +299,78 @@ test('retrieve, create, update, delete', async () => {
     },
   })
 })
+
+test('grant, revoke, graph', async () => {
+  const { data: app } = await pgMeta.roles.create({ name: 'test_app' })
+  const { data: team } = await pgMeta.roles.create({ name: 'test_team', member_of: ['test_app'] })
+  const { data: user } = await pgMeta.roles.create({ name: 'test_user', inherit_role: false })
+
+  let res = await pgMeta.roles.grant(user!.id, { role: 'test_team', admin_option: true })
+  expect(res.error).toBeNull()
+  expect(res.data!.member_of.map(({ name, admin_option }) => ({ name, admin_option })))
+    .toMatchInlineSnapshot(`
+    [
+      {
+        "admin_option": true,
+        "name": "test_team",
+      },
+    ]
+  `)
+  expect(res.data!.inherited_member_of).toEqual([{ id: app!.id, name: 'test_app' }])
+
+  // test_user is NOINHERIT, so it can only SET ROLE to test_app to use its privileges.
+  const { data: graph } = await pgMeta.roles.graph(app!.id)
+  const names = Object.fromEntries(graph!.nodes.map(({ id, name }) => [id, name]))
+  expect(graph!.nodes.map(({ name, relationship, inherits }) => ({ name, relationship, inherits })))
+    .toMatchInlineSnapshot(`
+    [
+      {
+        "inherits": true,
+        "name": "test_app",
+        "relationship": "self",
+      },
+      {
+        "inherits": true,
+        "name": "test_team",
+        "relationship": "member",
+      },
+      {
+        "inherits": false,
+        "name": "test_user",
+        "relationship": "member",
+      },
+    ]
+  `)
+  expect(
+    graph!.edges.map(({ role_id, member_id, admin_option, inherit_option }) => ({
+      role: names[role_id],
+      member: names[member_id],
+      admin_option,
+      inherit_option,
+    }))
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "admin_option": false,
+        "inherit_option": true,
+        "member": "test_team",
+        "role": "test_app",
+      },
+      {
+        "admin_option": true,
+        "inherit_option": false,
+        "member": "test_user",
+        "role": "test_team",
+      },
+    ]
+  `)
+
+  res = await pgMeta.roles.revoke(user!.id, { role: 'test_team', option: 'ADMIN' })
+  expect(res.data!.member_of).toMatchObject([{ name: 'test_team', admin_option: false }])
+  res = await pgMeta.roles.revoke(user!.id, { role: 'test_team' })
+  expect(res.data).toMatchObject({ member_of: [], inherited_member_of: [] })
+
+  await pgMeta.roles.remove(user!.id)
+  await pgMeta.roles.remove(team!.id)
+  await pgMeta.roles.remove(app!.id)
+})
@@ -44,11 +44,14 @@ test('list', async () => {
       "columns": [
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "bigint",
           "default_value": null,
           "enums": [],
           "format": "int8",
+          "generation_expression": null,
           "identity_generation": "BY DEFAULT",
           "is_generated": false,
           "is_identity": true,
@@ -58,15 +61,20 @@ test('list', async () => {
           "name": "id",
           "ordinal_position": 1,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "PLAIN",
           "table": "users",
         },
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "text",
           "default_value": null,
           "enums": [],
           "format": "text",
+          "generation_expression": null,
           "identity_generation": null,
           "is_generated": false,
           "is_identity": false,
@@ -76,11 +84,15 @@ test('list', async () => {
           "name": "name",
           "ordinal_position": 2,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "EXTENDED",
           "table": "users",
         },
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "USER-DEFINED",
           "default_value": "'ACTIVE'::user_status",
           "enums": [
@@ -88,6 +100,7 @@ test('list', async () => {
             "INACTIVE",
           ],
           "format": "user_status",
+          "generation_expression": null,
           "identity_generation": null,
           "is_generated": false,
           "is_identity": false,
@@ -97,6 +110,8 @@ test('list', async () => {
           "name": "status",
           "ordinal_position": 3,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "PLAIN",
           "table": "users",
         },
       ],
@@ -105,6 +120,10 @@ test('list', async () => {
       "id": Any<Number>,
       "live_rows_estimate": Any<Number>,
       "name": "users",
+      "partition_bound": null,
+      "partition_key": null,
+      "partition_parent_id": null,
+      "partition_strategy": null,
       "primary_keys": [
         {
           "name": "id",
@@ -169,6 +188,10 @@ test('list without columns', async () => {
       "id": Any<Number>,
       "live_rows_estimate": Any<Number>,
       "name": "users",
+      "partition_bound": null,
+      "partition_key": null,
+      "partition_parent_id": null,
+      "partition_strategy": null,
       "primary_keys": [
         {
           "name": "id",
@@ -255,6 +278,10 @@ test('retrieve, create, update, delete', async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "test",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "DEFAULT",
@@ -280,6 +307,10 @@ test('retrieve, create, update, delete', async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "test",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "DEFAULT",
@@ -311,6 +342,10 @@ test('retrieve, create, update, delete', async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "test a",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "NOTHING",
@@ -336,6 +371,10 @@ test('retrieve, create, update, delete', async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "test a",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "NOTHING",
@@ -374,6 +413,10 @@ test('update with name unchanged', async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "t",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "DEFAULT",
@@ -403,6 +446,10 @@ test("allow ' in comments", async () => {
         "id": Any<Number>,
         "live_rows_estimate": 0,
         "name": "t",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [],
         "relationships": [],
         "replica_identity": "DEFAULT",
@@ -442,11 +489,14 @@ test('primary keys', async () => {
         "columns": [
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -456,15 +506,20 @@ test('primary keys', async () => {
             "name": "c",
             "ordinal_position": 1,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "t",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "text",
             "default_value": null,
             "enums": [],
             "format": "text",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -474,6 +529,8 @@ test('primary keys', async () => {
             "name": "cc",
             "ordinal_position": 2,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "EXTENDED",
             "table": "t",
           },
         ],
@@ -482,6 +539,10 @@ test('primary keys', async () => {
         "id": Any<Number>,
         "live_rows_estimate": Any<Number>,
         "name": "t",
+        "partition_bound": null,
+        "partition_key": null,
+        "partition_parent_id": null,
+        "partition_strategy": null,
         "primary_keys": [
           {
             "name": "c",
@@ -9,6 +9,8 @@ test('list', async () => {
     {
       "attributes": [],
       "comment": null,
+      "domain_base_type": null,
+      "domain_base_type_id": null,
       "enums": [
         "ACTIVE",
         "INACTIVE",
@@ -16,6 +18,8 @@ test('list', async () => {
       "format": "user_status",
       "id": Any<Number>,
       "name": "user_status",
+      "range_subtype": null,
+      "range_subtype_id": null,
       "schema": "public",
     }
   `
@@ -76,10 +80,14 @@ test('composite type attributes', async () => {
         },
       ],
       "comment": null,
+      "domain_base_type": null,
+      "domain_base_type_id": null,
       "enums": [],
       "format": "test_composite",
       "id": Any<Number>,
       "name": "test_composite",
+      "range_subtype": null,
+      "range_subtype_id": null,
       "schema": "public",
     }
   `
@@ -7,14 +7,18 @@ test('list', async () => {
     { id: expect.any(Number) },
     `
     {
+      "check_option": null,
       "columns": [
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "bigint",
           "default_value": null,
           "enums": [],
           "format": "int8",
+          "generation_expression": null,
           "id": "16423.1",
           "identity_generation": null,
           "is_generated": false,
@@ -25,16 +29,21 @@ test('list', async () => {
           "name": "id",
           "ordinal_position": 1,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "PLAIN",
           "table": "todos_view",
           "table_id": 16423,
         },
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "text",
           "default_value": null,
           "enums": [],
           "format": "text",
+          "generation_expression": null,
           "id": "16423.2",
           "identity_generation": null,
           "is_generated": false,
@@ -45,16 +54,21 @@ test('list', async () => {
           "name": "details",
           "ordinal_position": 2,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "EXTENDED",
           "table": "todos_view",
           "table_id": 16423,
         },
         {
           "check": null,
+          "collation": null,
           "comment": null,
+          "compression": null,
           "data_type": "bigint",
           "default_value": null,
           "enums": [],
           "format": "int8",
+          "generation_expression": null,
           "id": "16423.3",
           "identity_generation": null,
           "is_generated": false,
@@ -65,6 +79,8 @@ test('list', async () => {
           "name": "user-id",
           "ordinal_position": 3,
           "schema": "public",
+          "statistics_target": null,
+          "storage": "PLAIN",
           "table": "todos_view",
           "table_id": 16423,
         },
@@ -74,6 +90,8 @@ test('list', async () => {
       "is_updatable": true,
       "name": "todos_view",
       "schema": "public",
+      "security_barrier": false,
+      "security_invoker": false,
     }
   `
   )
@@ -87,11 +105,14 @@ test('list without columns', async () => {
     },
     `
     {
+      "check_option": null,
       "comment": null,
       "id": Any<Number>,
       "is_updatable": true,
       "name": "todos_view",
       "schema": "public",
+      "security_barrier": false,
+      "security_invoker": false,
     }
   `
   )
@@ -104,14 +125,18 @@ test('retrieve', async () => {
     `
     {
       "data": {
+        "check_option": null,
         "columns": [
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "id": "16423.1",
             "identity_generation": null,
             "is_generated": false,
@@ -122,16 +147,21 @@ test('retrieve', async () => {
             "name": "id",
             "ordinal_position": 1,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "todos_view",
             "table_id": 16423,
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "text",
             "default_value": null,
             "enums": [],
             "format": "text",
+            "generation_expression": null,
             "id": "16423.2",
             "identity_generation": null,
             "is_generated": false,
@@ -142,16 +172,21 @@ test('retrieve', async () => {
             "name": "details",
             "ordinal_position": 2,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "EXTENDED",
             "table": "todos_view",
             "table_id": 16423,
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "id": "16423.3",
             "identity_generation": null,
             "is_generated": false,
@@ -162,6 +197,8 @@ test('retrieve', async () => {
             "name": "user-id",
             "ordinal_position": 3,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "todos_view",
             "table_id": 16423,
           },
@@ -171,9 +208,94 @@ test('retrieve', async () => {
         "is_updatable": true,
         "name": "todos_view",
         "schema": "public",
+        "security_barrier": false,
+        "security_invoker": false,
       },
       "error": null,
     }
   `
   )
 })
+
+test('create, update, remove', async () => {
+  let res = await pgMeta.views.create({
+    name: 'test_view',
+    query: 'select id, details from todos',
+    security_barrier: true,
+    check_option: 'LOCAL',
+    comment: 'foo',
+  })
+  const { columns, ...view }: any = res.data
+  expect({ data: view, error: res.error }).toMatchInlineSnapshot(
+    { data: { id: expect.any(Number) } },
+    `
+    {
+      "data": {
+        "check_option": "LOCAL",
+        "comment": "foo",
+        "id": Any<Number>,
+        "is_updatable": true,
+        "name": "test_view",
+        "schema": "public",
+        "security_barrier": true,
+        "security_invoker": false,
+      },
+      "error": null,
+    }
+  `
+  )
+  expect(columns.map(({ name }: any) => name)).toMatchInlineSnapshot(`
+    [
+      "id",
+      "details",
+    ]
+  `)
+
+  res = await pgMeta.views.update(view.id, {
+    query: 'select id, details, "user-id" from todos',
+    check_option: null,
+  })
+  expect(res.data).toMatchObject({ security_barrier: true, check_option: null, comment: 'foo' })
+  expect(res.data?.columns?.map(({ name }) => name)).toMatchInlineSnapshot(`
+    [
+      "id",
+      "details",
+      "user-id",
+    ]
+  `)
+
+  await pgMeta.query('create schema test_view_schema')
+  res = await pgMeta.views.update(view.id, {
+    name: 'test_view_renamed',
+    schema: 'test_view_schema',
+    security_barrier: false,
+    check_option: 'CASCADED',
+    comment: 'bar',
+  })
+  expect(res.data).toMatchObject({
+    name: 'test_view_renamed',
+    schema: 'test_view_schema',
+    security_barrier: false,
+    check_option: 'CASCADED',
+    comment: 'bar',
+  })
+
+  res = await pgMeta.views.remove(view.id)
+  expect(res.data).toMatchObject({ id: view.id, name: 'test_view_renamed' })
+  res = await pgMeta.views.retrieve({ id: view.id })
+  expect(res.error?.message).toMatch(/^Cannot find/)
+  await pgMeta.query('drop schema test_view_schema')
+})
+
+test('remove with dependents', async () => {
+  const { data: view } = await pgMeta.views.create({ name: 'test_view_a', query: 'select 1 as a' })
+  await pgMeta.views.create({ name: 'test_view_b', query: 'select a from test_view_a' })
+
+  let res = await pgMeta.views.remove(view!.id)
+  expect(res.error?.message).toMatch(/other objects depend on it/)
+
+  res = await pgMeta.views.remove(view!.id, { cascade: true })
+  expect(res.error).toBeNull()
+  res = await pgMeta.views.retrieve({ schema: 'public', name: 'test_view_b' })
+  expect(res.error?.message).toMatch(/^Cannot find/)
+})
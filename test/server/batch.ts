@@ -0,0 +1,89 @@
+import { expect, test } from 'vitest'
+import { app } from './utils'
+
+test('batch operations referencing previous results', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/batch',
+    payload: {
+      operations: [
+        { operation: 'tables.create', params: { name: 'batch_todos' } },
+        {
+          operation: 'columns.create',
+          params: { table_id: { $ref: '0.id' }, name: 'id', type: 'int8', is_primary_key: true },
+        },
+        {
+          operation: 'columns.create',
+          params: { table_id: { $ref: '0.id' }, name: 'details', type: 'text' },
+        },
+        {
+          operation: 'table_privileges.grant',
+          params: [{ relation_id: { $ref: '0.id' }, grantee: 'postgres', privilege_type: 'ALL' }],
+        },
+      ],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const [table, id, details] = res.json()
+  expect(table).toMatchObject({ name: 'batch_todos', schema: 'public' })
+  expect(id).toMatchObject({ table_id: table.id, name: 'id', data_type: 'bigint' })
+  expect(details).toMatchObject({ table_id: table.id, name: 'details', data_type: 'text' })
+
+  res = await app.inject({ method: 'DELETE', path: `/tables/${table.id}` })
+  expect(res.statusCode).toBe(200)
+})
+
+test('batch operations are rolled back on error', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/batch',
+    payload: {
+      operations: [
+        { operation: 'tables.create', params: { name: 'batch_rollback' } },
+        { operation: 'query', params: { query: 'select 1/0' } },
+      ],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "division by zero",
+      "index": 1,
+    }
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select to_regclass('public.batch_rollback') as oid` },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "oid": null,
+      },
+    ]
+  `)
+})
+
+test('batch operations with invalid reference', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/batch',
+    payload: {
+      operations: [
+        {
+          operation: 'columns.create',
+          params: { table_id: { $ref: '0.id' }, name: 'id', type: 'int8' },
+        },
+      ],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "Invalid reference 0.id: no preceding operation 0",
+      "index": 0,
+    }
+  `)
+})
@@ -0,0 +1,245 @@
+import { expect, test } from 'vitest'
+import { PostgresConstraint } from '../../src/lib/types'
+import { app } from './utils'
+
+test('list constraints', async () => {
+  const res = await app.inject({ method: 'GET', path: '/constraints' })
+  const { id, table_id, referenced_table_id, ...constraint } = res
+    .json<PostgresConstraint[]>()
+    .find(({ name }) => name === 'todos_user-id_fkey')!
+  expect(constraint).toMatchInlineSnapshot(
+    `
+    {
+      "columns": [
+        "user-id",
+      ],
+      "comment": null,
+      "definition": "FOREIGN KEY ("user-id") REFERENCES users(id)",
+      "is_deferrable": false,
+      "is_deferred": false,
+      "is_valid": true,
+      "kind": "foreign_key",
+      "name": "todos_user-id_fkey",
+      "on_delete": "NO ACTION",
+      "on_update": "NO ACTION",
+      "referenced_columns": [
+        "id",
+      ],
+      "referenced_schema": "public",
+      "referenced_table": "users",
+      "schema": "public",
+      "table": "todos",
+    }
+  `
+  )
+
+  const retrieveRes = await app.inject({ method: 'GET', path: `/constraints/${id}` })
+  expect(retrieveRes.json()).toMatchObject({ id, table_id, referenced_table_id })
+})
+
+test('list constraints of a table', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select 'public.users'::regclass::int8 as id` },
+  })
+  const tableId = res.json()[0].id
+
+  res = await app.inject({ method: 'GET', path: '/constraints', query: { table_id: tableId } })
+  expect(res.json<PostgresConstraint[]>().map(({ name, kind }) => ({ name, kind })))
+    .toMatchInlineSnapshot(`
+      [
+        {
+          "kind": "primary_key",
+          "name": "users_pkey",
+        },
+      ]
+    `)
+})
+
+test('create, validate, rename, remove constraints', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+create table test_constraints (id int8, "user-id" int8, email text, during tsrange);
+insert into test_constraints values (1, 404, 'a@example.com', null);`,
+    },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `select 'public.test_constraints'::regclass::int8 as id, 'public.users'::regclass::int8 as users_id`,
+    },
+  })
+  const { id: tableId, users_id: usersId } = res.json()[0]
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: {
+      kind: 'foreign_key',
+      table_id: tableId,
+      name: 'test_constraints_user_fkey',
+      columns: ['user-id'],
+      referenced_table_id: usersId,
+      on_delete: 'CASCADE',
+      is_deferrable: true,
+      is_deferred: true,
+      not_valid: true,
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const foreignKey = res.json<PostgresConstraint>()
+  expect(foreignKey).toMatchObject({
+    name: 'test_constraints_user_fkey',
+    kind: 'foreign_key',
+    table_id: tableId,
+    columns: ['user-id'],
+    referenced_table_id: usersId,
+    referenced_columns: ['id'],
+    on_delete: 'CASCADE',
+    on_update: 'NO ACTION',
+    is_deferrable: true,
+    is_deferred: true,
+    is_valid: false,
+    comment: 'foo',
+  })
+  expect(foreignKey.definition).toBe(
+    'FOREIGN KEY ("user-id") REFERENCES users(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED NOT VALID'
+  )
+
+  // The existing row references a missing user.
+  res = await app.inject({ method: 'POST', path: `/constraints/${foreignKey.id}/validate` })
+  expect(res.statusCode).toBe(400)
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'delete from test_constraints' },
+  })
+  res = await app.inject({ method: 'POST', path: `/constraints/${foreignKey.id}/validate` })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ is_valid: true })
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/constraints/${foreignKey.id}`,
+    payload: { name: 'test_constraints_user_id_fkey', comment: 'bar' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_constraints_user_id_fkey', comment: 'bar' })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: { kind: 'unique', table_id: tableId, columns: ['email'], include: ['id'] },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_constraints_email_key',
+    kind: 'unique',
+    columns: ['email'],
+    definition: 'UNIQUE (email) INCLUDE (id)',
+  })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: {
+      kind: 'check',
+      table_id: tableId,
+      name: 'test_constraints_email_check',
+      check: "email like '%@%'",
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ kind: 'check', columns: ['email'], is_valid: true })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: {
+      kind: 'exclusion',
+      table_id: tableId,
+      elements: [{ name: 'during', operator: '&&' }],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_constraints_during_excl',
+    kind: 'exclusion',
+    definition: 'EXCLUDE USING gist (during WITH &&)',
+  })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: {
+      kind: 'exclusion',
+      table_id: tableId,
+      elements: [{ name: 'during', operator: '&&) where (true' }],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({ error: 'Invalid operator: &&) where (true' })
+
+  res = await app.inject({ method: 'DELETE', path: `/constraints/${foreignKey.id}` })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_constraints_user_id_fkey' })
+  res = await app.inject({ method: 'GET', path: `/constraints/${foreignKey.id}` })
+  expect(res.statusCode).toBe(404)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_constraints' },
+  })
+})
+
+test('create a constraint on a partitioned table', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+create table test_constraints_parent (id int8) partition by range (id);
+create table test_constraints_child partition of test_constraints_parent for values from (0) to (10);`,
+    },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select 'public.test_constraints_parent'::regclass::int8 as id` },
+  })
+  const tableId = res.json()[0].id
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: { kind: 'unique', table_id: tableId, columns: ['id'] },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_constraints_parent_id_key',
+    table: 'test_constraints_parent',
+    table_id: tableId,
+  })
+
+  // Taken names get a number, as in Postgres.
+  res = await app.inject({
+    method: 'POST',
+    path: '/constraints',
+    payload: { kind: 'unique', table_id: tableId, columns: ['id'] },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_constraints_parent_id_key1' })
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_constraints_parent' },
+  })
+})
@@ -0,0 +1,85 @@
+import { expect, test } from 'vitest'
+import { PostgresEventTrigger, PostgresFunction } from '../../src/lib/types'
+import { app } from './utils'
+
+test('create, update, remove event trigger', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+create function public.test_event_trigger_handler() returns event_trigger as $$
+begin
+  raise notice 'ddl: %', tg_tag;
+end;
+$$ language plpgsql;`,
+    },
+  })
+  let res = await app.inject({
+    method: 'GET',
+    path: '/functions',
+    query: { return_type: 'event_trigger' },
+  })
+  const handler = res
+    .json<PostgresFunction[]>()
+    .find(({ name }) => name === 'test_event_trigger_handler')!
+  expect(handler).toMatchObject({ schema: 'public', return_type: 'event_trigger' })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/event-triggers',
+    payload: {
+      name: 'test_event_trigger',
+      event: 'ddl_command_end',
+      tags: ['CREATE TABLE', 'ALTER TABLE'],
+      function_name: 'test_event_trigger_handler',
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const { id, owner, function_id, ...eventTrigger } = res.json<PostgresEventTrigger>()
+  expect(function_id).toBe(handler.id)
+  expect(eventTrigger).toMatchInlineSnapshot(
+    `
+    {
+      "comment": "foo",
+      "enabled_mode": "ORIGIN",
+      "event": "ddl_command_end",
+      "function_name": "test_event_trigger_handler",
+      "function_schema": "public",
+      "name": "test_event_trigger",
+      "tags": [
+        "CREATE TABLE",
+        "ALTER TABLE",
+      ],
+    }
+  `
+  )
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/event-triggers/${id}`,
+    payload: { name: 'test_event_trigger_renamed', enabled_mode: 'DISABLED' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_event_trigger_renamed',
+    enabled_mode: 'DISABLED',
+  })
+
+  res = await app.inject({ method: 'GET', path: '/event-triggers' })
+  expect(res.json<PostgresEventTrigger[]>().map(({ name }) => name)).toContain(
+    'test_event_trigger_renamed'
+  )
+
+  res = await app.inject({ method: 'DELETE', path: `/event-triggers/${id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/event-triggers/${id}` })
+  expect(res.statusCode).toBe(404)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop function public.test_event_trigger_handler' },
+  })
+})
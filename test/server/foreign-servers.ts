@@ -0,0 +1,134 @@
+import { expect, test } from 'vitest'
+import { app } from './utils'
+
+test('list foreign data wrappers', async () => {
+  const res = await app.inject({ method: 'GET', path: '/foreign-data-wrappers' })
+  expect(res.statusCode).toBe(200)
+  const { id, ...wrapper } = res.json().find(({ name }: any) => name === 'postgres_fdw')
+  expect(wrapper).toMatchInlineSnapshot(`
+    {
+      "comment": null,
+      "handler": "postgres_fdw_handler",
+      "name": "postgres_fdw",
+      "options": {},
+      "owner": "postgres",
+      "validator": "postgres_fdw_validator",
+    }
+  `)
+})
+
+test('list foreign servers with redacted user mappings', async () => {
+  let res = await app.inject({ method: 'GET', path: '/foreign-servers' })
+  expect(res.statusCode).toBe(200)
+  const { id, wrapper_id, ...server } = res
+    .json()
+    .find(({ name }: any) => name === 'foreign_server')
+  expect(server).toMatchInlineSnapshot(`
+    {
+      "comment": null,
+      "name": "foreign_server",
+      "options": {
+        "dbname": "postgres",
+        "host": "localhost",
+        "port": "5432",
+      },
+      "owner": "postgres",
+      "type": null,
+      "version": null,
+      "wrapper": "postgres_fdw",
+    }
+  `)
+
+  res = await app.inject({ method: 'GET', path: '/user-mappings', query: { server_id: `${id}` } })
+  expect(res.json().map(({ id, server_id, ...rest }: any) => rest)).toMatchInlineSnapshot(`
+    [
+      {
+        "options": {
+          "password": "REDACTED",
+          "user": "postgres",
+        },
+        "server": "foreign_server",
+        "user": "postgres",
+      },
+    ]
+  `)
+})
+
+test('foreign server and user mapping create, update, remove', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/foreign-servers',
+    payload: {
+      name: 'test_server',
+      wrapper: 'postgres_fdw',
+      version: '1',
+      options: { host: 'localhost', dbname: 'postgres' },
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const server = res.json()
+  expect(server).toMatchObject({
+    name: 'test_server',
+    version: '1',
+    options: { host: 'localhost', dbname: 'postgres' },
+    comment: 'foo',
+  })
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/foreign-servers/${server.id}`,
+    payload: {
+      name: 'test_server_renamed',
+      version: null,
+      options: { host: '127.0.0.1', dbname: null, port: '5432' },
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_server_renamed',
+    version: null,
+    options: { host: '127.0.0.1', port: '5432' },
+    comment: 'foo',
+  })
+  expect(res.json().options).not.toHaveProperty('dbname')
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/user-mappings',
+    payload: {
+      server: 'test_server_renamed',
+      user: 'public',
+      options: { user: 'postgres', password: 'secret' },
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const mapping = res.json()
+  expect(mapping).toMatchObject({
+    server_id: server.id,
+    user: 'public',
+    options: { user: 'postgres', password: 'REDACTED' },
+  })
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/user-mappings/${mapping.id}`,
+    payload: { options: { password: 'another secret' } },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json().options).toEqual({ user: 'postgres', password: 'REDACTED' })
+
+  res = await app.inject({ method: 'DELETE', path: `/foreign-servers/${server.id}` })
+  expect(res.statusCode).toBe(400)
+  expect(res.json().error).toMatch(/other objects depend on it/)
+
+  res = await app.inject({ method: 'DELETE', path: `/user-mappings/${mapping.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/user-mappings/${mapping.id}` })
+  expect(res.statusCode).toBe(404)
+
+  res = await app.inject({ method: 'DELETE', path: `/foreign-servers/${server.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/foreign-servers/${server.id}` })
+  expect(res.statusCode).toBe(404)
+})
@@ -0,0 +1,153 @@
+import { expect, test } from 'vitest'
+import { app } from './utils'
+
+test('foreign table create, update, remove', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/foreign-tables',
+    payload: {
+      name: 'test_foreign_table',
+      server: 'foreign_server',
+      columns: [
+        { name: 'id', type: 'int8', is_nullable: false },
+        { name: 'text', type: 'text', options: { column_name: 'details' } },
+      ],
+      options: { schema_name: 'public', table_name: 'todos' },
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const table = res.json()
+  expect(table).toMatchObject({
+    name: 'test_foreign_table',
+    schema: 'public',
+    server: 'foreign_server',
+    options: { schema_name: 'public', table_name: 'todos' },
+    comment: 'foo',
+  })
+  expect(table.columns.map(({ name, is_nullable }: any) => ({ name, is_nullable })))
+    .toMatchInlineSnapshot(`
+      [
+        {
+          "is_nullable": false,
+          "name": "id",
+        },
+        {
+          "is_nullable": true,
+          "name": "text",
+        },
+      ]
+    `)
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/foreign-tables/${table.id}`,
+    payload: {
+      name: 'test_foreign_table_renamed',
+      columns: [{ name: 'id', options: { column_name: 'id' } }],
+      options: { schema_name: null, table_name: 'users' },
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_foreign_table_renamed',
+    options: { table_name: 'users' },
+  })
+  expect(res.json().options).not.toHaveProperty('schema_name')
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `select attname, attfdwoptions from pg_attribute where attrelid = ${table.id} and attnum > 0 order by attnum`,
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "attfdwoptions": [
+          "column_name=id",
+        ],
+        "attname": "id",
+      },
+      {
+        "attfdwoptions": [
+          "column_name=details",
+        ],
+        "attname": "text",
+      },
+    ]
+  `)
+
+  res = await app.inject({ method: 'DELETE', path: `/foreign-tables/${table.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/foreign-tables/${table.id}` })
+  expect(res.statusCode).toBe(404)
+})
+
+test('import foreign schema', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'create schema test_import' },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/foreign-tables/import',
+    payload: {
+      server: 'foreign_server',
+      remote_schema: 'public',
+      local_schema: 'test_import',
+      limit_to: ['todos'],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(
+    res.json().map(({ schema, name, options, columns }: any) => ({
+      schema,
+      name,
+      options,
+      columns: columns.map(({ name }: any) => name),
+    }))
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "columns": [
+          "id",
+          "details",
+          "user-id",
+        ],
+        "name": "todos",
+        "options": {
+          "schema_name": "public",
+          "table_name": "todos",
+        },
+        "schema": "test_import",
+      },
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/foreign-tables/import',
+    payload: {
+      server: 'foreign_server',
+      remote_schema: 'public',
+      local_schema: 'test_import',
+      limit_to: ['users'],
+      except: ['todos'],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "Only one of limit_to and except can be specified",
+    }
+  `)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop schema test_import cascade' },
+  })
+})
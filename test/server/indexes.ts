@@ -38,6 +38,7 @@ test('list indexes', async () => {
       "is_unique": true,
       "is_valid": true,
       "key_attributes": "1",
+      "name": "users_pkey",
       "number_of_attributes": 1,
       "number_of_key_attributes": 1,
       "options": "0",
@@ -79,6 +80,7 @@ test('retrieve index', async () => {
       "is_unique": true,
       "is_valid": true,
       "key_attributes": "1",
+      "name": "users_pkey",
       "number_of_attributes": 1,
       "number_of_key_attributes": 1,
       "options": "0",
@@ -88,3 +90,150 @@ test('retrieve index', async () => {
   `
   )
 })
+
+test('create, reindex, remove index', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'create table test_indexes (id int8, email text, data jsonb)' },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select 'public.test_indexes'::regclass::int8 as id` },
+  })
+  const tableId = res.json()[0].id
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/indexes',
+    payload: {
+      table_id: tableId,
+      name: 'test_indexes_email',
+      columns: [{ expression: 'lower(email)', order: 'DESC', nulls: 'LAST' }],
+      is_unique: true,
+      include: ['id'],
+      where: 'id > 0',
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const index = res.json()
+  expect(index).toMatchObject({
+    name: 'test_indexes_email',
+    schema: 'public',
+    table_id: tableId,
+    is_unique: true,
+    is_valid: true,
+    comment: 'foo',
+  })
+  expect(index.index_attributes).toMatchInlineSnapshot(`
+    [
+      {
+        "attribute_name": "lower",
+        "attribute_number": 1,
+        "data_type": "text",
+      },
+      {
+        "attribute_name": "id",
+        "attribute_number": 2,
+        "data_type": "bigint",
+      },
+    ]
+  `)
+  expect(index.index_definition).toMatchInlineSnapshot(
+    '"CREATE UNIQUE INDEX test_indexes_email ON public.test_indexes USING btree (lower(email) DESC NULLS LAST) INCLUDE (id) WHERE (id > 0)"'
+  )
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/indexes',
+    payload: {
+      table_id: tableId,
+      columns: [{ name: 'data', opclass: 'jsonb_path_ops' }],
+      access_method: 'gin',
+      concurrently: true,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_indexes_data_idx', access_method: 'gin' })
+
+  // Taken names get a number, as in Postgres.
+  res = await app.inject({
+    method: 'POST',
+    path: '/indexes',
+    payload: {
+      table_id: tableId,
+      columns: [{ name: 'data', opclass: 'pg_catalog.jsonb_ops' }],
+      access_method: 'gin',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_indexes_data_idx1' })
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/indexes/${index.id}/reindex`,
+    query: { concurrently: 'true' },
+  })
+  expect(res.statusCode).toBe(200)
+
+  res = await app.inject({
+    method: 'DELETE',
+    path: `/indexes/${index.id}`,
+    query: { concurrently: 'true' },
+  })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/indexes/${index.id}` })
+  expect(res.statusCode).toBe(404)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_indexes' },
+  })
+})
+
+test('failed concurrent index build', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query:
+        'create table test_invalid_index (id int8); insert into test_invalid_index values (1), (1);',
+    },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select 'public.test_invalid_index'::regclass::int8 as id` },
+  })
+  const tableId = res.json()[0].id
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/indexes',
+    payload: {
+      table_id: tableId,
+      name: 'test_invalid_index_id',
+      columns: [{ name: 'id' }],
+      is_unique: true,
+      concurrently: true,
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json().error).toMatch(
+    /^could not create unique index "test_invalid_index_id"\. The failed concurrent build left behind the invalid index public\.test_invalid_index_id \(ID \d+\), which should be dropped or reindexed\.$/
+  )
+
+  res = await app.inject({ method: 'GET', path: '/indexes' })
+  expect(
+    res.json().find(({ name }: PostgresIndex) => name === 'test_invalid_index_id')
+  ).toMatchObject({ is_valid: false })
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_invalid_index' },
+  })
+})
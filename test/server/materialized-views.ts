@@ -2,7 +2,7 @@ import { expect, test } from 'vitest'
 import { app } from './utils'
 
 const cleanNondetFromBody = <T>(x: T) => {
-  const cleanNondet = ({ id, columns, ...rest }: any) => {
+  const cleanNondet = ({ id, columns, bytes, size, ...rest }: any) => {
     const cleaned = rest
     if (columns) {
       cleaned.columns = columns.map(({ id, table_id, ...rest }: any) => rest)
@@ -20,6 +20,7 @@ test('materialized views', async () => {
       {
         "comment": null,
         "is_populated": true,
+        "last_refreshed_at": null,
         "name": "todos_matview",
         "schema": "public",
       },
@@ -39,11 +40,14 @@ test('materialized views with columns', async () => {
         "columns": [
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -53,15 +57,20 @@ test('materialized views with columns', async () => {
             "name": "id",
             "ordinal_position": 1,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "todos_matview",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "text",
             "default_value": null,
             "enums": [],
             "format": "text",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -71,15 +80,20 @@ test('materialized views with columns', async () => {
             "name": "details",
             "ordinal_position": 2,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "EXTENDED",
             "table": "todos_matview",
           },
           {
             "check": null,
+            "collation": null,
             "comment": null,
+            "compression": null,
             "data_type": "bigint",
             "default_value": null,
             "enums": [],
             "format": "int8",
+            "generation_expression": null,
             "identity_generation": null,
             "is_generated": false,
             "is_identity": false,
@@ -89,14 +103,102 @@ test('materialized views with columns', async () => {
             "name": "user-id",
             "ordinal_position": 3,
             "schema": "public",
+            "statistics_target": null,
+            "storage": "PLAIN",
             "table": "todos_matview",
           },
         ],
         "comment": null,
         "is_populated": true,
+        "last_refreshed_at": null,
         "name": "todos_matview",
         "schema": "public",
       },
     ]
   `)
 })
+
+test('materialized view create, update, refresh, remove', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/materialized-views',
+    payload: {
+      name: 'test_matview',
+      query: 'select id, details from public.todos',
+      with_data: false,
+      storage_parameters: { fillfactor: 70, 'toast.autovacuum_enabled': false },
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const view = res.json()
+  expect(view).toMatchObject({
+    name: 'test_matview',
+    schema: 'public',
+    is_populated: false,
+    comment: 'foo',
+    last_refreshed_at: null,
+  })
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select reloptions from pg_class where oid = ${view.id}` },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "reloptions": [
+          "fillfactor=70",
+        ],
+      },
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/materialized-views/${view.id}/refresh`,
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ is_populated: true })
+  expect(res.json().bytes).toBeGreaterThan(0)
+  const { last_refreshed_at: refreshedAt } = res.json()
+  expect(Date.parse(refreshedAt)).toBeGreaterThan(Date.now() - 60_000)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/materialized-views/${view.id}/refresh`,
+    query: { concurrently: 'true' },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "Materialized view public.test_matview needs a unique index on its columns, with no WHERE clause, to be refreshed concurrently",
+    }
+  `)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'create unique index on public.test_matview (id)' },
+  })
+  res = await app.inject({
+    method: 'POST',
+    path: `/materialized-views/${view.id}/refresh`,
+    query: { concurrently: 'true' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(Date.parse(res.json().last_refreshed_at)).toBeGreaterThanOrEqual(Date.parse(refreshedAt))
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/materialized-views/${view.id}`,
+    payload: { name: 'test_matview_renamed', comment: 'bar' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_matview_renamed', comment: 'bar' })
+
+  res = await app.inject({ method: 'DELETE', path: `/materialized-views/${view.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/materialized-views/${view.id}` })
+  expect(res.statusCode).toBe(404)
+})
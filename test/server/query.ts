@@ -1,4 +1,6 @@
+import pg from 'pg'
 import { expect, test } from 'vitest'
+import { build as buildApp } from '../../src/server/app'
 import { app } from './utils'
 
 test('query', async () => {
@@ -557,3 +559,385 @@ test('return interval as string', async () => {
     ]
   `)
 })
+
+test('query with parameters', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: 'SELECT id, name FROM users WHERE id = $1 AND name = $2',
+      parameters: [1, 'Joe Bloggs'],
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "id": 1,
+        "name": "Joe Bloggs",
+      },
+    ]
+  `)
+})
+
+test('query with type-hinted parameters', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      // The hints are the parameters' types, no casts needed.
+      query: `SELECT $1 AS big, $2 AS doc, $3->>'a' AS a`,
+      parameters: [
+        { value: '9007199254740993', type: 'int8' },
+        { value: { a: [1, 2] }, type: 'jsonb' },
+        { value: { a: 'b' }, type: 'jsonb' },
+      ],
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "a": "b",
+        "big": "9007199254740993",
+        "doc": {
+          "a": [
+            1,
+            2,
+          ],
+        },
+      },
+    ]
+  `)
+})
+
+test('query with an unknown parameter type', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'SELECT $1', parameters: [{ value: 1, type: 'no_such_type' }] },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({ message: 'type "no_such_type" does not exist' })
+})
+
+test('query with parameters error', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: 'SELECT $1::int4',
+      parameters: ['not a number'],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json().message).toMatchInlineSnapshot(
+    `"invalid input syntax for type integer: "not a number""`
+  )
+})
+
+test('query with result sets', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query?result_sets=true',
+    payload: {
+      query: `CREATE TEMP TABLE result_sets (id int4);
+INSERT INTO result_sets SELECT generate_series(1, 5);
+SELECT count(*) FROM result_sets;
+SELECT id, id::text AS name FROM result_sets WHERE id < 0;`,
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "command": "CREATE",
+        "fields": [],
+        "row_count": null,
+        "rows": [],
+      },
+      {
+        "command": "INSERT",
+        "fields": [],
+        "row_count": 5,
+        "rows": [],
+      },
+      {
+        "command": "SELECT",
+        "fields": [
+          {
+            "name": "count",
+            "type": "bigint",
+            "type_id": 20,
+          },
+        ],
+        "row_count": 1,
+        "rows": [
+          {
+            "count": 5,
+          },
+        ],
+      },
+      {
+        "command": "SELECT",
+        "fields": [
+          {
+            "name": "id",
+            "type": "integer",
+            "type_id": 23,
+          },
+          {
+            "name": "name",
+            "type": "text",
+            "type_id": 25,
+          },
+        ],
+        "row_count": 0,
+        "rows": [],
+      },
+    ]
+  `)
+})
+
+test('query with statement timeout', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'SELECT pg_sleep(5)', statement_timeout: 100 },
+  })
+  expect(res.statusCode).toBe(408)
+  expect(res.json()).toMatchObject({
+    code: '57014',
+    message: 'canceling statement due to statement timeout',
+    timed_out: true,
+  })
+})
+
+test('query cancelled when the client goes away', async () => {
+  // Aborting needs a real connection, which inject() doesn't have.
+  const server = buildApp()
+  const address = await server.listen({ port: 0, host: '127.0.0.1' })
+  // Split so the lookups below don't match themselves.
+  const activeSql = `select count(*)::int as count from pg_stat_activity
+where state = 'active' and query like '%' || 'test_query' || '_abort%'`
+  const countActive = async () => {
+    const res = await app.inject({ method: 'POST', path: '/query', payload: { query: activeSql } })
+    return res.json()[0].count
+  }
+  const waitFor = async (count: number) => {
+    for (let i = 0; i < 50 && (await countActive()) !== count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100))
+    }
+    return await countActive()
+  }
+
+  const controller = new AbortController()
+  const request = fetch(`${address}/query`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ query: 'select pg_sleep(30) -- test_query_abort' }),
+    signal: controller.signal,
+  }).catch((error) => error)
+  expect(await waitFor(1)).toBe(1)
+
+  controller.abort()
+  expect(await request).toMatchObject({ name: 'AbortError' })
+  expect(await waitFor(0)).toBe(0)
+
+  await server.close()
+})
+
+test('query exported as csv', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    query: { format: 'csv', delimiter: ';' },
+    payload: {
+      query: `SELECT * FROM (VALUES (1, 'a;b', null::text), (2, 'say "hi"', 'x')) v(id, text, note)`,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.headers['content-type']).toMatch('text/csv')
+  expect(res.body).toBe('id;text;note\n1;"a;b";\n2;"say ""hi""";x\n')
+})
+
+test('query exported as tsv without header', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    query: { format: 'tsv', header: 'false' },
+    payload: { query: `SELECT 1 AS id, E'a\\tb' AS text` },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.headers['content-type']).toMatch('text/tab-separated-values')
+  expect(res.body).toBe('1\ta\\tb\n')
+})
+
+test('query exported as ndjson through the Accept header', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    headers: { accept: 'application/x-ndjson' },
+    payload: { query: 'SELECT i AS id FROM generate_series(1, $1) i', parameters: [2500] },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.headers['content-type']).toMatch('application/x-ndjson')
+  const lines = res.body.trimEnd().split('\n')
+  expect(lines).toHaveLength(2500)
+  expect(JSON.parse(lines[2499])).toEqual({ id: 2500 })
+})
+
+test('query export error', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    query: { format: 'csv' },
+    payload: { query: 'SELECT * FROM missing_table' },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({ message: 'relation "missing_table" does not exist' })
+})
+
+test('query export with statement timeout', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    query: { format: 'ndjson' },
+    payload: { query: 'SELECT pg_sleep(5)', statement_timeout: 100 },
+  })
+  expect(res.statusCode).toBe(408)
+  expect(res.json()).toMatchObject({
+    code: '57014',
+    message: 'canceling statement due to statement timeout',
+    timed_out: true,
+  })
+})
+
+test('query with type parsing modes', async () => {
+  const query = `select 1::int8 as small, 9007199254740993::int8 as big, 1.50::numeric as num`
+  const run = (type_parsing?: string) =>
+    app.inject({
+      method: 'POST',
+      path: '/query',
+      query: type_parsing ? { type_parsing } : {},
+      payload: { query },
+    })
+
+  let res = await run()
+  expect(res.json()).toEqual([{ small: 1, big: '9007199254740993', num: '1.50' }])
+
+  res = await run('string')
+  expect(res.json()).toEqual([{ small: '1', big: '9007199254740993', num: '1.50' }])
+
+  res = await run('tagged')
+  expect(res.json()).toEqual([
+    {
+      small: { type: 'int8', value: '1' },
+      big: { type: 'int8', value: '9007199254740993' },
+      num: { type: 'numeric', value: '1.50' },
+    },
+  ])
+
+  res = await run('bogus')
+  expect(res.statusCode).toBe(400)
+
+  // Arrays are parsed like their elements.
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    query: { type_parsing: 'string' },
+    payload: {
+      query: `select '{1,9007199254740993}'::int8[] as ints, '{1.50}'::numeric[] as nums`,
+    },
+  })
+  expect(res.json()).toEqual([{ ints: ['1', '9007199254740993'], nums: ['1.50'] }])
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `select '{1,9007199254740993}'::int8[] as ints, '{1.50}'::numeric[] as nums`,
+    },
+  })
+  expect(res.json()).toEqual([{ ints: [1, '9007199254740993'], nums: ['1.50'] }])
+
+  // Every result set of a multi-statement query is parsed the same way.
+  res = await app.inject({
+    method: 'POST',
+    path: '/query?result_sets=true',
+    payload: { query: `${query}; ${query}` },
+  })
+  expect(res.json().map(({ rows }: { rows: unknown[] }) => rows)).toEqual([
+    [{ small: 1, big: '9007199254740993', num: '1.50' }],
+    [{ small: 1, big: '9007199254740993', num: '1.50' }],
+  ])
+
+  // node-postgres' own parsers are left alone.
+  expect(pg.types.getTypeParser(pg.types.builtins.INT8, 'text')('1')).toBe('1')
+})
+
+test('explain', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query/explain',
+    payload: { query: 'select * from users where id = $1', parameters: [1] },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    plan: {
+      node_type: expect.any(String),
+      estimated_rows: expect.any(Number),
+      total_cost: expect.any(Number),
+      actual_rows: null,
+      time_share: null,
+      warnings: [],
+      children: expect.any(Array),
+    },
+    planning_time: null,
+    execution_time: null,
+    settings: null,
+  })
+})
+
+test('explain analyze', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query/explain',
+    payload: { query: `select * from json_array_elements('[1]')`, analyze: true },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    plan: {
+      node_type: 'Function Scan',
+      estimated_rows: 100,
+      actual_rows: 1,
+      loops: 1,
+      time_share: expect.any(Number),
+      warnings: ['Estimated 100 rows, got 1'],
+    },
+    planning_time: expect.any(Number),
+    execution_time: expect.any(Number),
+  })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/query/explain',
+    payload: { query: `insert into users (name) values ('explained')`, analyze: true },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json().plan).toMatchObject({ node_type: 'ModifyTable', relation: 'public.users' })
+
+  // ANALYZE runs the insert, but doesn't keep it.
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select count(*) from users where name = 'explained'` },
+  })
+  expect(res.json()).toEqual([{ count: 0 }])
+})
+
+test('explain refuses several statements', async () => {
+  const res = await app.inject({
+    method: 'POST',
+    path: '/query/explain',
+    payload: { query: 'select 1; drop table users' },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({ error: 'Only a single statement can be explained' })
+})
@@ -0,0 +1,101 @@
+import { expect, test } from 'vitest'
+import { build as buildApp } from '../../src/server/app'
+
+const app = buildApp({}, { readOnly: true })
+
+test('read-only mode refuses mutating routes', async () => {
+  let res = await app.inject({ method: 'POST', path: '/tables', payload: { name: 'read_only' } })
+  expect(res.statusCode).toBe(403)
+  expect(res.json()).toEqual({ error: 'POST /tables is not allowed in read-only mode' })
+
+  res = await app.inject({ method: 'DELETE', path: '/roles/1' })
+  expect(res.statusCode).toBe(403)
+  expect(res.json()).toEqual({ error: 'DELETE /roles/:id is not allowed in read-only mode' })
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/table-privileges',
+    payload: [{ relation_id: 1, grantee: 'postgres', privilege_type: 'ALL' }],
+  })
+  expect(res.statusCode).toBe(403)
+
+  res = await app.inject({ method: 'GET', path: '/tables' })
+  expect(res.statusCode).toBe(200)
+
+  res = await app.inject({ method: 'POST', path: '/no-such-route' })
+  expect(res.statusCode).toBe(404)
+})
+
+test('read-only mode refuses mutating queries', async () => {
+  const query = (query: string) =>
+    app.inject({ method: 'POST', path: '/query', payload: { query } })
+
+  let res = await query(`insert into users (name) values ('read only')`)
+  expect(res.statusCode).toBe(403)
+  expect(res.json()).toEqual({ error: 'INSERT is not allowed in read-only mode' })
+
+  res = await query('with deleted as (delete from users returning *) select * from deleted')
+  expect(res.json()).toEqual({ error: 'DELETE is not allowed in read-only mode' })
+
+  res = await query('commit; drop table users')
+  expect(res.json()).toEqual({ error: 'COMMIT is not allowed in read-only mode' })
+
+  res = await query('revoke all on users from postgres')
+  expect(res.json()).toEqual({ error: 'REVOKE is not allowed in read-only mode' })
+
+  res = await query('set transaction_read_only = off; do $$ begin drop table users; end $$')
+  expect(res.json()).toEqual({
+    error: 'SET transaction_read_only is not allowed in read-only mode',
+  })
+
+  res = await query('set session characteristics as transaction read write')
+  expect(res.json()).toEqual({
+    error: 'SET SESSION CHARACTERISTICS is not allowed in read-only mode',
+  })
+
+  res = await query('do $$ begin drop table users; end $$')
+  expect(res.json()).toEqual({ error: 'DO is not allowed in read-only mode' })
+
+  res = await query('call some_procedure()')
+  expect(res.json()).toEqual({ error: 'CALL is not allowed in read-only mode' })
+
+  res = await query(`copy users to program 'true'`)
+  expect(res.json()).toEqual({ error: 'COPY TO PROGRAM is not allowed in read-only mode' })
+
+  res = await query(`copy (select 1) to '/tmp/read_only'`)
+  expect(res.json()).toEqual({ error: 'COPY TO is not allowed in read-only mode' })
+
+  // The transaction already has a snapshot, so it can't be made read-write.
+  res = await query(`select set_config('transaction_read_only', 'off', true)`)
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({
+    message: 'transaction read-write mode must be set before any query',
+  })
+
+  res = await query('select 1 as one')
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toEqual([{ one: 1 }])
+
+  // Not caught by the parser, but by the read-only transaction.
+  res = await query('select lo_create(0)')
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchObject({
+    message: 'cannot execute lo_create() in a read-only transaction',
+  })
+})
+
+test('read-only mode refuses mutating explains', async () => {
+  const explain = (payload: object) =>
+    app.inject({ method: 'POST', path: '/query/explain', payload })
+
+  let res = await explain({ query: 'select 1; drop table users' })
+  expect(res.statusCode).toBe(403)
+  expect(res.json()).toEqual({ error: 'DROP is not allowed in read-only mode' })
+
+  res = await explain({ query: 'select 1; commit; drop table users', analyze: true })
+  expect(res.statusCode).toBe(403)
+  expect(res.json()).toEqual({ error: 'COMMIT is not allowed in read-only mode' })
+
+  res = await explain({ query: 'select 1' })
+  expect(res.statusCode).toBe(200)
+})
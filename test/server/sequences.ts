@@ -0,0 +1,132 @@
+import { expect, test } from 'vitest'
+import { PostgresSequence } from '../../src/lib/types'
+import { app } from './utils'
+
+test('list sequences', async () => {
+  const res = await app.inject({ method: 'GET', path: '/sequences' })
+  const sequence = res.json<PostgresSequence[]>().find(({ name }) => name === 'users_id_seq')!
+  expect(sequence).toMatchObject({
+    schema: 'public',
+    data_type: 'bigint',
+    start_value: 1,
+    increment: 1,
+    min_value: 1,
+    max_value: '9223372036854775807',
+    is_cycled: false,
+    cache_size: 1,
+    is_identity: true,
+    owned_by_schema: 'public',
+    owned_by_table: 'users',
+    owned_by_column: 'id',
+  })
+  expect(sequence.last_value).toBeGreaterThanOrEqual(2)
+})
+
+test('create, update, resync, remove sequence', async () => {
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'create table test_sequences (id int4)' },
+  })
+  let res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select 'public.test_sequences'::regclass::int8 as id` },
+  })
+  const tableId = res.json()[0].id
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/sequences',
+    payload: {
+      name: 'test_sequences_id_seq',
+      data_type: 'integer',
+      start_value: 10,
+      increment: 10,
+      max_value: 1000,
+      owned_by: { table_id: tableId, column: 'id' },
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const sequence = res.json<PostgresSequence>()
+  const { id, owned_by_table_id, ...rest } = sequence
+  expect(owned_by_table_id).toBe(tableId)
+  expect(rest).toMatchInlineSnapshot(`
+    {
+      "cache_size": 1,
+      "comment": "foo",
+      "data_type": "integer",
+      "increment": 10,
+      "is_cycled": false,
+      "is_identity": false,
+      "last_value": null,
+      "max_value": 1000,
+      "min_value": 1,
+      "name": "test_sequences_id_seq",
+      "owned_by_column": "id",
+      "owned_by_schema": "public",
+      "owned_by_table": "test_sequences",
+      "percent_used": null,
+      "schema": "public",
+      "start_value": 10,
+    }
+  `)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'insert into test_sequences values (10), (20), (490)' },
+  })
+  res = await app.inject({ method: 'POST', path: `/sequences/${id}/resync` })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ last_value: 490, percent_used: 48.95 })
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select nextval('test_sequences_id_seq') as value` },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "value": 500,
+      },
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/sequences/${id}`,
+    payload: {
+      name: 'test_sequences_id_seq_renamed',
+      is_cycled: true,
+      restart_value: 1,
+      owned_by: null,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({
+    name: 'test_sequences_id_seq_renamed',
+    is_cycled: true,
+    owned_by_column: null,
+  })
+
+  res = await app.inject({ method: 'POST', path: `/sequences/${id}/resync` })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "Sequence public.test_sequences_id_seq_renamed isn't owned by a column, so there's nothing to resync it with",
+    }
+  `)
+
+  res = await app.inject({ method: 'DELETE', path: `/sequences/${id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/sequences/${id}` })
+  expect(res.statusCode).toBe(404)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_sequences' },
+  })
+})
@@ -5,6 +5,7 @@ import { fileURLToPath } from 'node:url'
 import { expect, test } from 'vitest'
 import { app } from './utils'
 import { CRYPTO_KEY, DEFAULT_POOL_CONFIG } from '../../src/server/constants'
+import { pools } from '../../src/server/pools'
 
 // @ts-ignore: Harmless type error on import.meta.
 const cwd = path.dirname(fileURLToPath(import.meta.url))
@@ -50,6 +51,8 @@ test('query with ssl w/o root cert', async () => {
 test('query with ssl with root cert', async () => {
   const defaultSsl = DEFAULT_POOL_CONFIG.ssl
   DEFAULT_POOL_CONFIG.ssl = { ca: sslRootCert }
+  // Pools are created with the config at the time, so start over.
+  await pools.end()
 
   const res = await app.inject({
     method: 'POST',
@@ -71,4 +74,5 @@ test('query with ssl with root cert', async () => {
   `)
 
   DEFAULT_POOL_CONFIG.ssl = defaultSsl
+  await pools.end()
 })
@@ -0,0 +1,297 @@
+import { expect, test } from 'vitest'
+import { PostgresTable } from '../../src/lib/types'
+import { app } from './utils'
+
+test('partitioned tables', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/tables',
+    payload: {
+      name: 'test_events',
+      columns: [
+        { name: 'id', type: 'int8' },
+        { name: 'created_at', type: 'timestamptz', is_nullable: false },
+      ],
+      partition_by: { strategy: 'RANGE', key: 'created_at' },
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const parent = res.json<PostgresTable>()
+  expect(parent).toMatchObject({
+    name: 'test_events',
+    partition_strategy: 'RANGE',
+    partition_key: 'created_at',
+    partition_parent_id: null,
+    partition_bound: null,
+  })
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${parent.id}/partitions/range`,
+    payload: { interval: '1 month', count: 2 },
+  })
+  expect(res.statusCode).toBe(400)
+  expect(res.json()).toMatchInlineSnapshot(`
+    {
+      "error": "Table public.test_events has no partitions to continue from, so a start is needed",
+    }
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${parent.id}/partitions`,
+    payload: {
+      name: 'test_events_p20240101',
+      partition_bound: `FOR VALUES FROM ('2024-01-01 00:00:00+00') TO ('2024-02-01 00:00:00+00')`,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const partition = res.json<PostgresTable>()
+  expect(partition).toMatchObject({
+    partition_strategy: null,
+    partition_parent_id: parent.id,
+    partition_bound: `FOR VALUES FROM ('2024-01-01 00:00:00+00') TO ('2024-02-01 00:00:00+00')`,
+  })
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${parent.id}/partitions/range`,
+    payload: { interval: '1 month', count: 2 },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(
+    res.json<PostgresTable[]>().map(({ name, partition_bound }) => ({ name, partition_bound }))
+  ).toMatchInlineSnapshot(`
+      [
+        {
+          "name": "test_events_p20240201",
+          "partition_bound": "FOR VALUES FROM ('2024-02-01 00:00:00+00') TO ('2024-03-01 00:00:00+00')",
+        },
+        {
+          "name": "test_events_p20240301",
+          "partition_bound": "FOR VALUES FROM ('2024-03-01 00:00:00+00') TO ('2024-04-01 00:00:00+00')",
+        },
+      ]
+    `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${partition.id}/detach`,
+    query: { concurrently: 'true' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ partition_parent_id: null, partition_bound: null })
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${parent.id}/partitions/attach`,
+    payload: { table_id: partition.id, partition_bound: 'DEFAULT' },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ partition_parent_id: parent.id, partition_bound: 'DEFAULT' })
+
+  res = await app.inject({ method: 'DELETE', path: `/tables/${parent.id}` })
+  expect(res.statusCode).toBe(200)
+})
+
+test('create table with constraints', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/tables',
+    payload: {
+      name: 'test_authors',
+      columns: [{ name: 'id', type: 'int8', is_identity: true, is_primary_key: true }],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const authors = res.json<PostgresTable>()
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/tables',
+    payload: {
+      name: 'test_books',
+      columns: [
+        { name: 'author_id', type: 'int8' },
+        { name: 'number', type: 'int4' },
+        { name: 'isbn', type: 'text', comment: 'ISBN-13' },
+        { name: 'price', type: 'numeric', check: 'price > 0' },
+      ],
+      primary_keys: ['author_id', 'number'],
+      constraints: [
+        { kind: 'unique', name: 'test_books_isbn_key', columns: ['isbn'] },
+        {
+          kind: 'foreign_key',
+          columns: ['author_id'],
+          referenced_table_id: authors.id,
+          on_delete: 'CASCADE',
+        },
+      ],
+      storage_parameters: { fillfactor: 70 },
+      rls_enabled: true,
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const books = res.json<PostgresTable>()
+  expect(books).toMatchObject({
+    name: 'test_books',
+    rls_enabled: true,
+    comment: 'foo',
+  })
+  expect(books.primary_keys.map(({ name }) => name)).toMatchInlineSnapshot(`
+    [
+      "author_id",
+      "number",
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+select
+  c.reloptions,
+  (select array_agg(conname order by conname) from pg_constraint where conrelid = c.oid) as constraints,
+  col_description(c.oid, 3) as isbn_comment
+from pg_class c where c.oid = ${books.id}`,
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "constraints": [
+          "test_books_author_id_fkey",
+          "test_books_isbn_key",
+          "test_books_pkey",
+          "test_books_price_check",
+        ],
+        "isbn_comment": "ISBN-13",
+        "reloptions": [
+          "fillfactor=70",
+        ],
+      },
+    ]
+  `)
+
+  // The column's storage fails after the table is created, which undoes it.
+  res = await app.inject({
+    method: 'POST',
+    path: '/tables',
+    payload: {
+      name: 'test_rollback',
+      columns: [{ name: 'id', type: 'int4', storage: 'EXTERNAL' }],
+    },
+  })
+  expect(res.statusCode).toBe(400)
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: `select to_regclass('public.test_rollback') as oid` },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "oid": null,
+      },
+    ]
+  `)
+
+  res = await app.inject({ method: 'DELETE', path: `/tables/${books.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'DELETE', path: `/tables/${authors.id}` })
+  expect(res.statusCode).toBe(200)
+})
+
+test('duplicate table', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/tables',
+    payload: {
+      name: 'test_todos',
+      columns: [
+        { name: 'id', type: 'int8', is_identity: true, is_primary_key: true },
+        { name: 'title', type: 'text', default_value: 'untitled' },
+        { name: 'slug', type: 'text', generation_expression: `lower(title)` },
+      ],
+      rls_enabled: true,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const todos = res.json<PostgresTable>()
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+insert into test_todos (title) values ('A'), ('B');
+create policy test_todos_select on test_todos for select using (title <> 'secret');
+create function test_todos_noop() returns trigger language plpgsql as $$ begin return new; end $$;
+create trigger test_todos_noop before insert on test_todos
+  for each row execute function test_todos_noop();`,
+    },
+  })
+  expect(res.statusCode).toBe(200)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${todos.id}/duplicate`,
+    payload: { name: 'test_todos_copy', data: true, indexes: true, policies: true, triggers: true },
+  })
+  expect(res.statusCode).toBe(200)
+  const copy = res.json<PostgresTable>()
+  expect(copy).toMatchObject({ name: 'test_todos_copy', schema: 'public', rls_enabled: true })
+  expect(copy.primary_keys.map(({ name }) => name)).toEqual(['id'])
+
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+insert into test_todos_copy default values;
+select
+  (select array_agg(id || ':' || title || ':' || slug order by id) from test_todos_copy) as rows,
+  (select array_agg(polname) from pg_policy where polrelid = ${copy.id}) as policies,
+  (select array_agg(pg_get_triggerdef(oid)) from pg_trigger where tgrelid = ${copy.id}) as triggers`,
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "policies": [
+          "test_todos_select",
+        ],
+        "rows": [
+          "1:A:a",
+          "2:B:b",
+          "3:untitled:untitled",
+        ],
+        "triggers": [
+          "CREATE TRIGGER test_todos_noop BEFORE INSERT ON public.test_todos_copy FOR EACH ROW EXECUTE FUNCTION test_todos_noop()",
+        ],
+      },
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'POST',
+    path: `/tables/${todos.id}/duplicate`,
+    payload: { name: 'test_todos_structure' },
+  })
+  expect(res.statusCode).toBe(200)
+  const structure = res.json<PostgresTable>()
+  expect(structure.primary_keys).toEqual([])
+  expect(structure.live_rows_estimate).toBe(0)
+
+  for (const { id } of [structure, copy, todos]) {
+    res = await app.inject({ method: 'DELETE', path: `/tables/${id}` })
+    expect(res.statusCode).toBe(200)
+  }
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop function test_todos_noop();' },
+  })
+  expect(res.statusCode).toBe(200)
+})
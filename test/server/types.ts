@@ -0,0 +1,221 @@
+import { expect, test } from 'vitest'
+import { app } from './utils'
+
+test('enum create, update, remove', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/types',
+    payload: { kind: 'enum', name: 'test_enum', values: ['a', 'c'], comment: 'foo' },
+  })
+  expect(res.statusCode).toBe(200)
+  const type = res.json()
+  expect(type).toMatchObject({ name: 'test_enum', enums: ['a', 'c'], comment: 'foo' })
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/types/${type.id}`,
+    payload: {
+      add_values: [
+        { value: 'b', after: 'a' },
+        { value: 'z', before: 'a' },
+      ],
+      rename_values: [{ from: 'c', to: 'd' }],
+      name: 'test_enum_renamed',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json()).toMatchObject({ name: 'test_enum_renamed', enums: ['z', 'a', 'b', 'd'] })
+
+  res = await app.inject({ method: 'DELETE', path: `/types/${type.id}` })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({ method: 'GET', path: `/types/${type.id}` })
+  expect(res.statusCode).toBe(404)
+})
+
+test('composite type create, update', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/types',
+    payload: {
+      kind: 'composite',
+      name: 'test_composite_type',
+      attributes: [
+        { name: 'id', type: 'int8' },
+        { name: 'data', type: 'text', collation: 'C' },
+      ],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const type = res.json()
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/types/${type.id}`,
+    payload: {
+      add_attributes: [{ name: 'created_at', type: 'timestamptz' }],
+      alter_attributes: [{ name: 'id', type: 'int4' }],
+      rename_attributes: [{ from: 'data', to: 'details' }],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  expect(res.json().attributes).toMatchInlineSnapshot(`
+    [
+      {
+        "name": "id",
+        "type_id": 23,
+      },
+      {
+        "name": "details",
+        "type_id": 25,
+      },
+      {
+        "name": "created_at",
+        "type_id": 1184,
+      },
+    ]
+  `)
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/types/${type.id}`,
+    payload: { drop_attributes: ['created_at'] },
+  })
+  expect(res.json().attributes.map(({ name }: any) => name)).toEqual(['id', 'details'])
+
+  await app.inject({ method: 'DELETE', path: `/types/${type.id}` })
+})
+
+test('domain create, update, dependents, remove', async () => {
+  let res = await app.inject({
+    method: 'POST',
+    path: '/types',
+    payload: {
+      kind: 'domain',
+      name: 'test_domain',
+      base_type: 'varchar(10)',
+      default_value: `'x'`,
+      is_nullable: false,
+      constraints: [{ name: 'not_empty', check: `value <> ''` }],
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  const { id, ...domain } = res.json()
+  expect(domain).toMatchInlineSnapshot(
+    { domain_base_type_id: expect.any(Number) },
+    `
+    {
+      "attributes": [],
+      "comment": null,
+      "domain_base_type": "character varying(10)",
+      "domain_base_type_id": Any<Number>,
+      "enums": [],
+      "format": "test_domain",
+      "name": "test_domain",
+      "range_subtype": null,
+      "range_subtype_id": null,
+      "schema": "public",
+    }
+  `
+  )
+
+  res = await app.inject({
+    method: 'PATCH',
+    path: `/types/${id}`,
+    payload: {
+      default_value: null,
+      is_nullable: true,
+      drop_constraints: ['not_empty'],
+      add_constraints: [{ name: 'short', check: 'length(value) < 5' }],
+      comment: 'foo',
+    },
+  })
+  expect(res.statusCode).toBe(200)
+  res = await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `select typdefault, typnotnull, (select array_agg(conname) from pg_constraint where contypid = t.oid) as constraints from pg_type t where oid = ${id}`,
+    },
+  })
+  expect(res.json()).toMatchInlineSnapshot(`
+    [
+      {
+        "constraints": [
+          "short",
+        ],
+        "typdefault": null,
+        "typnotnull": false,
+      },
+    ]
+  `)
+
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: {
+      query: `
+create table test_domain_table (value test_domain, value_list test_domain[]);
+create domain test_domain_2 as test_domain;
+create function test_domain_function(test_domain) returns int language sql as 'select 1';`,
+    },
+  })
+  res = await app.inject({ method: 'GET', path: `/types/${id}/dependents` })
+  expect(res.statusCode).toBe(200)
+  const { columns, functions, domains } = res.json()
+  expect({
+    columns: columns.map(({ table_id, ...rest }: any) => rest),
+    functions: functions.map(({ id, ...rest }: any) => rest),
+    domains: domains.map(({ id, ...rest }: any) => rest),
+  }).toMatchInlineSnapshot(`
+    {
+      "columns": [
+        {
+          "name": "value",
+          "schema": "public",
+          "table": "test_domain_table",
+        },
+        {
+          "name": "value_list",
+          "schema": "public",
+          "table": "test_domain_table",
+        },
+      ],
+      "domains": [
+        {
+          "name": "test_domain_2",
+          "schema": "public",
+        },
+      ],
+      "functions": [
+        {
+          "identity_argument_types": "test_domain",
+          "name": "test_domain_function",
+          "schema": "public",
+        },
+      ],
+    }
+  `)
+
+  res = await app.inject({ method: 'DELETE', path: `/types/${id}` })
+  expect(res.statusCode).toBe(400)
+  res = await app.inject({ method: 'DELETE', path: `/types/${id}`, query: { cascade: 'true' } })
+  expect(res.statusCode).toBe(200)
+  await app.inject({
+    method: 'POST',
+    path: '/query',
+    payload: { query: 'drop table test_domain_table' },
+  })
+})
+
+test('range subtype', async () => {
+  const res = await app.inject({
+    method: 'GET',
+    path: '/types',
+    query: { include_system_schemas: 'true', included_schemas: 'pg_catalog' },
+  })
+  expect(res.json().find(({ name }: any) => name === 'int4range')).toMatchObject({
+    range_subtype_id: 23,
+    range_subtype: 'integer',
+    domain_base_type_id: null,
+  })
+})